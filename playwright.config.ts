@@ -20,6 +20,8 @@ const config: PlaywrightTestConfig = {
   webServer: {
     command: 'npm run build && npm run preview',
     port: 4173,
+    // Serve the recorded Solar API responses, no API key or network required.
+    env: { VITE_SOLAR_API_BACKEND: 'fixtures' },
   },
   testDir: 'tests',
   testMatch: /(.+\.)?(test|spec)\.[jt]s/,
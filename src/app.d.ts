@@ -23,6 +23,9 @@ declare global {
     // interface PageData {}
     // interface Platform {}
   }
+
+  // Whether the server has a `SOLAR_API_KEY` for the proxy, set at build time.
+  const __SOLAR_API_KEY_ON_SERVER__: boolean;
 }
 
 export {};
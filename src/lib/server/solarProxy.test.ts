@@ -0,0 +1,122 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClientRateLimiter, proxySolarApi, rewriteGeoTiffUrls } from './solarProxy';
+
+function createEvent(url: string, fetch: typeof globalThis.fetch): RequestEvent {
+  return {
+    url: new URL(url),
+    fetch,
+    getClientAddress: () => '203.0.113.7',
+  } as unknown as RequestEvent;
+}
+
+describe('ClientRateLimiter', () => {
+  it('limits each client separately and refills over time', () => {
+    let now = 0;
+    const limiter = new ClientRateLimiter(2, () => now);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBe(30);
+    expect(limiter.take('b')).toBe(0);
+    now += 30_000;
+    expect(limiter.take('a')).toBe(0);
+  });
+});
+
+describe('rewriteGeoTiffUrls', () => {
+  it('points the GeoTIFF URLs to the proxy', () => {
+    const dataLayers = rewriteGeoTiffUrls({
+      dsmUrl: 'https://solar.googleapis.com/v1/geoTiff:get?id=dsm',
+      hourlyShadeUrls: ['https://solar.googleapis.com/v1/geoTiff:get?id=shade'],
+      imageryQuality: 'HIGH',
+    });
+    expect(dataLayers).toEqual({
+      dsmUrl: '/api/solar/geoTiff?id=dsm',
+      hourlyShadeUrls: ['/api/solar/geoTiff?id=shade'],
+      imageryQuality: 'HIGH',
+    });
+  });
+});
+
+describe('proxySolarApi', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('replaces the client key with the server key', async () => {
+    const fetch = vi.fn(async () => Response.json({ name: 'buildings/test' }));
+    const event = createEvent(
+      'http://localhost/api/solar/buildingInsights?location.latitude=1&key=client',
+      fetch,
+    );
+    const response = await proxySolarApi(event, 'buildingInsights:findClosest', {
+      apiKey: 'server',
+      rateLimiter: new ClientRateLimiter(10),
+    });
+    expect(response.status).toBe(200);
+    expect(fetch).toHaveBeenCalledWith(
+      'https://solar.googleapis.com/v1/buildingInsights:findClosest?location.latitude=1&key=server',
+    );
+  });
+
+  it('forwards the length of the files and the wait of quota errors', async () => {
+    const fetch = vi.fn(async (url: RequestInfo | URL) =>
+      String(url).includes('geoTiff')
+        ? new Response('tiff', { headers: { 'content-type': 'image/tiff', 'content-length': '4' } })
+        : Response.json({}, { status: 429, headers: { 'retry-after': '30' } }),
+    );
+    const options = { apiKey: 'server', rateLimiter: new ClientRateLimiter(10) };
+    const file = await proxySolarApi(
+      createEvent('http://localhost/api/solar/geoTiff?id=dsm', fetch),
+      'geoTiff:get',
+      options,
+    );
+    expect(file.headers.get('content-length')).toBe('4');
+    const quota = await proxySolarApi(
+      createEvent('http://localhost/api/solar/dataLayers', fetch),
+      'dataLayers:get',
+      options,
+    );
+    expect(quota.status).toBe(429);
+    expect(quota.headers.get('retry-after')).toBe('30');
+  });
+
+  it('fails without calling the Solar API when rate limited', async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const event = createEvent('http://localhost/api/solar/dataLayers', fetch);
+    const options = { apiKey: 'server', rateLimiter: new ClientRateLimiter(1) };
+    await proxySolarApi(event, 'dataLayers:get', options);
+    const response = await proxySolarApi(event, 'dataLayers:get', options);
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('60');
+    expect(await response.json()).toMatchObject({ error: { status: 'RESOURCE_EXHAUSTED' } });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails when the server has no API key', async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const event = createEvent('http://localhost/api/solar/dataLayers', fetch);
+    const response = await proxySolarApi(event, 'dataLayers:get', {
+      apiKey: undefined,
+      rateLimiter: new ClientRateLimiter(10),
+    });
+    expect(response.status).toBe(500);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+
+const solarApiUrl = 'https://solar.googleapis.com/v1';
+
+// Path of the proxy endpoints, relative to our own origin.
+export const solarProxyPath = '/api/solar';
+
+/**
+ * Token bucket rate limiter, one bucket per client.
+ *
+ * Buckets are kept in memory, so each server instance enforces its own limit.
+ */
+export class ClientRateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private prunedAt: number;
+
+  constructor(
+    private requestsPerMinute: number,
+    private now: () => number = () => Date.now(),
+  ) {
+    this.prunedAt = now();
+  }
+
+  /**
+   * Takes a token from the client's bucket.
+   *
+   * @param  {string} clientId  Identifier of the client, like its IP address.
+   * @return {number}  Seconds until the next request is allowed, 0 if allowed now.
+   */
+  take(clientId: string): number {
+    const now = this.now();
+    const refillPerMs = this.requestsPerMinute / 60_000;
+    const bucket = this.buckets.get(clientId) ?? { tokens: this.requestsPerMinute, updatedAt: now };
+    bucket.tokens = Math.min(
+      this.requestsPerMinute,
+      bucket.tokens + (now - bucket.updatedAt) * refillPerMs,
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(clientId, bucket);
+    if (now - this.prunedAt >= 60_000) {
+      this.prune(now);
+    }
+
+    if (bucket.tokens < 1) {
+      return Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+    }
+    bucket.tokens -= 1;
+    return 0;
+  }
+
+  // Full buckets hold no state, forget them so the map doesn't grow forever.
+  // Runs at most once a minute, not to walk every bucket on every request.
+  private prune(now: number) {
+    this.prunedAt = now;
+    for (const [clientId, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= 60_000) {
+        this.buckets.delete(clientId);
+      }
+    }
+  }
+}
+
+// Shared by all the proxy endpoints. Showing a building takes about 20 requests
+// with all the hourly shade files.
+export const solarProxyRateLimiter = new ClientRateLimiter(120);
+
+/**
+ * Points the GeoTIFF URLs of a Data Layers response to the proxy.
+ *
+ * @param  {Record<string, unknown>} dataLayers  Data Layers response from the Solar API.
+ * @return {Record<string, unknown>}  Data Layers response with proxy URLs.
+ */
+export function rewriteGeoTiffUrls(dataLayers: Record<string, unknown>): Record<string, unknown> {
+  const rewrite = (url: unknown) =>
+    typeof url === 'string' && url.startsWith(`${solarApiUrl}/geoTiff:get?`)
+      ? url.replace(`${solarApiUrl}/geoTiff:get?`, `${solarProxyPath}/geoTiff?`)
+      : url;
+  return Object.fromEntries(
+    Object.entries(dataLayers).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value.map(rewrite) : rewrite(value),
+    ]),
+  );
+}
+
+export interface SolarProxyOptions {
+  apiKey: string | undefined;
+  rateLimiter: ClientRateLimiter;
+  transform?: (content: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Forwards a request to a Solar API method, adding the server's API key.
+ *
+ * The query parameters are forwarded as they are, except for `key`.
+ * Errors use the same shape as the Solar API errors.
+ *
+ * @param  {RequestEvent} event    Incoming request.
+ * @param  {string}       method   Solar API method, like `dataLayers:get`.
+ * @param  {SolarProxyOptions} options  API key, rate limiter and response transform.
+ * @return {Promise<Response>}  Response from the Solar API.
+ */
+export async function proxySolarApi(
+  event: RequestEvent,
+  method: string,
+  { apiKey, rateLimiter, transform }: SolarProxyOptions,
+): Promise<Response> {
+  const startTime = Date.now();
+  const clientId = event.getClientAddress();
+  const log = (status: number) =>
+    console.log(`solarProxy ${clientId} ${method} ${status} ${Date.now() - startTime}ms`);
+
+  if (!apiKey) {
+    log(500);
+    return errorResponse(500, 'FAILED_PRECONDITION', 'SOLAR_API_KEY is not set on the server.');
+  }
+
+  const retryAfter = rateLimiter.take(clientId);
+  if (retryAfter > 0) {
+    log(429);
+    return errorResponse(429, 'RESOURCE_EXHAUSTED', 'Too many requests, try again later.', {
+      'retry-after': retryAfter.toString(),
+    });
+  }
+
+  const params = new URLSearchParams(event.url.searchParams);
+  params.delete('key');
+  params.set('key', apiKey);
+
+  let response: Response;
+  try {
+    response = await event.fetch(`${solarApiUrl}/${method}?${params}`);
+  } catch (e) {
+    console.error(`solarProxy ${method}\n`, e);
+    log(502);
+    return errorResponse(502, 'UNAVAILABLE', 'Could not reach the Solar API.');
+  }
+  log(response.status);
+
+  if (transform && response.status == 200) {
+    const content = await response.json();
+    return Response.json(transform(content));
+  }
+  const headers = new Headers({
+    'content-type': response.headers.get('content-type') ?? 'application/json',
+  });
+  // The length gives the download progress of the GeoTIFF files, it only holds
+  // if fetch didn't decompress the body.
+  const contentLength = response.headers.get('content-length');
+  if (contentLength && !response.headers.has('content-encoding')) {
+    headers.set('content-length', contentLength);
+  }
+  // Keeps the wait of a quota error from the Solar API.
+  const retryAfterHeader = response.headers.get('retry-after');
+  if (retryAfterHeader) {
+    headers.set('retry-after', retryAfterHeader);
+  }
+  return new Response(response.body, { status: response.status, headers });
+}
+
+function errorResponse(
+  code: number,
+  status: string,
+  message: string,
+  headers: Record<string, string> = {},
+): Response {
+  return Response.json({ error: { code, message, status } }, { status: code, headers });
+}
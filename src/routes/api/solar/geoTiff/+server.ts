@@ -0,0 +1,26 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { env } from '$env/dynamic/private';
+import { proxySolarApi, solarProxyRateLimiter } from '$lib/server/solarProxy';
+import type { RequestHandler } from './$types';
+
+// https://developers.google.com/maps/documentation/solar/reference/rest/v1/geoTiff/get
+export const GET: RequestHandler = (event) =>
+  proxySolarApi(event, 'geoTiff:get', {
+    apiKey: env.SOLAR_API_KEY,
+    rateLimiter: solarProxyRateLimiter,
+  });
@@ -0,0 +1,117 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { buildingDiameter, buildingRasters, dataLayerRadius } from './buildingRasters';
+import { getLayer } from './layer';
+import { RasterStore } from './rasterStore';
+import type { BuildingInsightsResponse, DataLayersResponse, GeoTiff } from './solar';
+import type { SolarApiClient } from './solarClient';
+
+const geoTiff: GeoTiff = {
+  width: 2,
+  height: 2,
+  rasters: [new Float32Array(4)],
+  bounds: { north: 1, south: 0, east: 1, west: 0 },
+};
+
+// About 30 meters wide and 40 meters high, at the equator.
+const building = {
+  name: 'buildings/1',
+  center: { latitude: 0, longitude: 0 },
+  boundingBox: {
+    sw: { latitude: -20 / 111195, longitude: -15 / 111320 },
+    ne: { latitude: 20 / 111195, longitude: 15 / 111320 },
+  },
+} as BuildingInsightsResponse;
+
+const urls = {
+  maskUrl: 'mask',
+  dsmUrl: 'dsm',
+  rgbUrl: 'rgb',
+  annualFluxUrl: 'annualFlux',
+  monthlyFluxUrl: 'monthlyFlux',
+  hourlyShadeUrls: [...Array(12).keys()].map((month) => `hourlyShade-${month}`),
+} as DataLayersResponse;
+
+function fakeSolarApi() {
+  const getDataLayerUrls = vi.fn(async () => urls);
+  const downloadGeoTIFF = vi.fn(async () => geoTiff);
+  return {
+    getDataLayerUrls,
+    downloadGeoTIFF,
+    solarApi: { getDataLayerUrls, downloadGeoTIFF } as unknown as SolarApiClient,
+  };
+}
+
+describe('dataLayerRadius', () => {
+  it('covers the bounding box of the building', () => {
+    expect(buildingDiameter(building)).toBeCloseTo(50, 0);
+    expect(dataLayerRadius(building)).toBe(26);
+  });
+});
+
+describe('buildingRasters', () => {
+  it('requests the smallest view with every file', async () => {
+    const { solarApi, getDataLayerUrls, downloadGeoTIFF } = fakeSolarApi();
+    const rasters = new RasterStore();
+    const { mask, annualFlux } = await buildingRasters(
+      building,
+      ['mask', 'annualFlux'],
+      solarApi,
+      rasters,
+      { pixelSizeMeters: 0.5 },
+    );
+    expect(mask).toBe(geoTiff);
+    expect(annualFlux).toBe(geoTiff);
+    expect(getDataLayerUrls).toHaveBeenCalledTimes(1);
+    expect(getDataLayerUrls).toHaveBeenCalledWith(building.center, 26, {
+      signal: undefined,
+      priority: undefined,
+      view: 'IMAGERY_AND_ANNUAL_FLUX_LAYERS',
+      pixelSizeMeters: 0.5,
+    });
+    expect(downloadGeoTIFF.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      'mask',
+      'annualFlux',
+    ]);
+  });
+
+  it('reuses the files of the layers without requesting the urls', async () => {
+    const { solarApi, getDataLayerUrls, downloadGeoTIFF } = fakeSolarApi();
+    const rasters = new RasterStore();
+    await getLayer('hourlyShade', urls, solarApi, { rasters });
+    downloadGeoTIFF.mockClear();
+
+    const onProgress = vi.fn();
+    const { hourlyShade } = await buildingRasters(building, ['hourlyShade'], solarApi, rasters, {
+      onProgress,
+    });
+    expect(hourlyShade).toHaveLength(12);
+    expect(getDataLayerUrls).not.toHaveBeenCalled();
+    expect(downloadGeoTIFF).not.toHaveBeenCalled();
+    expect(onProgress).toHaveBeenCalledTimes(12);
+    expect(onProgress).toHaveBeenCalledWith(
+      'hourlyShade11',
+      expect.objectContaining({ state: 'done' }),
+    );
+
+    // Only the missing file is downloaded.
+    await buildingRasters(building, ['mask', 'dsm'], solarApi, rasters);
+    expect(getDataLayerUrls).toHaveBeenCalledTimes(1);
+    expect(downloadGeoTIFF.mock.calls.map((call: unknown[]) => call[0])).toEqual(['dsm']);
+  });
+});
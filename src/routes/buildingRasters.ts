@@ -0,0 +1,157 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { RasterStore } from './rasterStore';
+import type {
+  BuildingInsightsResponse,
+  DataLayerView,
+  DataLayersResponse,
+  DownloadProgress,
+  GeoTiff,
+  PixelSizeMeters,
+} from './solar';
+import type { SolarRequestOptions } from './rateLimiter';
+import type { SolarApiClient } from './solarClient';
+
+// Same radius as `google.maps.geometry.spherical.computeDistanceBetween`.
+const earthRadius = 6378137;
+
+// Data layer files, named like the layers store them, `hourlyShade` has one for each month.
+export type RasterFile = 'mask' | 'dsm' | 'rgb' | 'annualFlux' | 'monthlyFlux' | 'hourlyShade';
+
+export type BuildingRasters<F extends RasterFile> = {
+  [K in F]: K extends 'hourlyShade' ? GeoTiff[] : GeoTiff;
+};
+
+export interface BuildingRastersOptions extends SolarRequestOptions {
+  pixelSizeMeters?: PixelSizeMeters;
+  // Called for every file, like `hourlyShade3`, also once done for the memoized ones.
+  onProgress?: (file: string, progress: DownloadProgress) => void;
+}
+
+// Smallest view with each file, the views include the ones before them.
+const views: DataLayerView[] = [
+  'DSM_LAYER',
+  'IMAGERY_LAYERS',
+  'IMAGERY_AND_ANNUAL_FLUX_LAYERS',
+  'IMAGERY_AND_ALL_FLUX_LAYERS',
+  'FULL_LAYERS',
+];
+const fileViews: Record<RasterFile, DataLayerView> = {
+  dsm: 'DSM_LAYER',
+  mask: 'IMAGERY_LAYERS',
+  rgb: 'IMAGERY_LAYERS',
+  annualFlux: 'IMAGERY_AND_ANNUAL_FLUX_LAYERS',
+  monthlyFlux: 'IMAGERY_AND_ALL_FLUX_LAYERS',
+  hourlyShade: 'FULL_LAYERS',
+};
+const fileUrls: Record<Exclude<RasterFile, 'hourlyShade'>, (urls: DataLayersResponse) => string> = {
+  mask: (urls) => urls.maskUrl,
+  dsm: (urls) => urls.dsmUrl,
+  rgb: (urls) => urls.rgbUrl,
+  annualFlux: (urls) => urls.annualFluxUrl,
+  monthlyFlux: (urls) => urls.monthlyFluxUrl,
+};
+
+/**
+ * Distance between the corners of the bounding box of a building.
+ *
+ * @param  {BuildingInsightsResponse} building  Building of the data layers.
+ * @return {number}  Diameter in meters.
+ */
+export function buildingDiameter(building: BuildingInsightsResponse): number {
+  const radians = Math.PI / 180;
+  const { ne, sw } = building.boundingBox;
+  const [lat1, lat2] = [sw.latitude * radians, ne.latitude * radians];
+  const dLat = lat2 - lat1;
+  const dLng = (ne.longitude - sw.longitude) * radians;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return 2 * earthRadius * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Radius of the Data Layers requests of a building.
+ *
+ * Every request of a building uses it, so the files of any view cover the
+ * same pixels and can be shared through the raster store.
+ *
+ * @param  {BuildingInsightsResponse} building  Building of the data layers.
+ * @return {number}  Radius in whole meters.
+ */
+export function dataLayerRadius(building: BuildingInsightsResponse): number {
+  return Math.ceil(buildingDiameter(building) / 2);
+}
+
+/**
+ * Gets data layer files of a building through the raster store.
+ *
+ * Files already downloaded, or being downloaded, by a layer or another
+ * analysis are reused. The Data Layers URLs are only requested when a file
+ * is missing, with the smallest view that has all of them.
+ *
+ * @param  {BuildingInsightsResponse} building  Building of the data layers.
+ * @param  {F[]} files  Files to get.
+ * @param  {SolarApiClient} solarApi  Client of the Solar API.
+ * @param  {RasterStore} rasters  Rasters of the building, for its pixel size.
+ * @param  {BuildingRastersOptions} options  Pixel size, progress callback and signal.
+ * @return {Promise<BuildingRasters<F>>}  Decoded rasters by file.
+ */
+export async function buildingRasters<F extends RasterFile>(
+  building: BuildingInsightsResponse,
+  files: F[],
+  solarApi: SolarApiClient,
+  rasters: RasterStore,
+  options: BuildingRastersOptions = {},
+): Promise<BuildingRasters<F>> {
+  const view = views[Math.max(...files.map((file) => views.indexOf(fileViews[file])))];
+  let urls: Promise<DataLayersResponse> | undefined;
+  const dataLayerUrls = () => {
+    urls ??= solarApi.getDataLayerUrls(building.center, dataLayerRadius(building), {
+      signal: options.signal,
+      priority: options.priority,
+      view,
+      pixelSizeMeters: options.pixelSizeMeters,
+    });
+    return urls;
+  };
+  const get = (file: string, url: (urls: DataLayersResponse) => string) => {
+    const onProgress = (progress: DownloadProgress) => options.onProgress?.(file, progress);
+    return rasters.get(
+      file,
+      async () =>
+        solarApi.downloadGeoTIFF(url(await dataLayerUrls()), {
+          signal: options.signal,
+          priority: options.priority,
+          onProgress,
+        }),
+      onProgress,
+    );
+  };
+
+  const entries = await Promise.all(
+    files.map(async (file) => {
+      if (file == 'hourlyShade') {
+        const months = [...Array(12).keys()];
+        const shade = await Promise.all(
+          months.map((month) => get(`hourlyShade${month}`, (urls) => urls.hourlyShadeUrls[month])),
+        );
+        return [file, shade] as const;
+      }
+      return [file, await get(file, fileUrls[file as Exclude<RasterFile, 'hourlyShade'>])] as const;
+    }),
+  );
+  return Object.fromEntries(entries) as BuildingRasters<F>;
+}
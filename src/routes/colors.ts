@@ -19,3 +19,76 @@ export const rainbowPalette = ['3949AB', '81D4FA', '66BB6A', 'FFE082', 'E53935']
 export const ironPalette = ['00000A', '91009C', 'E64616', 'FEB400', 'FFFFF6'];
 export const sunlightPalette = ['212121', 'FFCA28'];
 export const panelsPalette = ['E8EAF6', '1A237E'];
+// Flat to steep roofs.
+export const slopePalette = ['1A9850', '91CF60', 'FEE08B', 'FC8D59', 'D73027'];
+// Cyclic, from north through east, south and west back to north.
+export const aspectPalette = ['3949AB', '43A047', 'E53935', 'FDD835', '3949AB'];
+export const hillshadePalette = ['000000', 'FFFFFF'];
+// Diverging, less sun in blue and more sun in red around a neutral zero.
+export const divergingPalette = [
+  '2166AC',
+  '67A9CF',
+  'D1E5F0',
+  'F7F7F7',
+  'FDDBC7',
+  'EF8A62',
+  'B2182B',
+];
+
+// Perceptually uniform palettes, readable with color vision deficiencies.
+//   https://bids.github.io/colormap/
+export const viridisPalette = [
+  '440154',
+  '472D7B',
+  '3B528B',
+  '2C728E',
+  '21918C',
+  '28AE80',
+  '5EC962',
+  'ADDC30',
+  'FDE725',
+];
+export const cividisPalette = [
+  '00224E',
+  '123570',
+  '3B496C',
+  '575D6D',
+  '707173',
+  '8A8678',
+  'A59C74',
+  'C3B369',
+  'E1CC55',
+  'FEE838',
+];
+export const magmaPalette = [
+  '000004',
+  '1C1044',
+  '4F127B',
+  '812581',
+  'B5367A',
+  'E55064',
+  'FB8761',
+  'FEC287',
+  'FCFDBF',
+];
+export const infernoPalette = [
+  '000004',
+  '1F0C48',
+  '550F6D',
+  '88226A',
+  'BA3655',
+  'E35933',
+  'F98C0A',
+  'F9C932',
+  'FCFFA4',
+];
+
+// Palettes to choose from for the layers with a sequential scale and the panels.
+export const paletteRegistry: Record<string, string[]> = {
+  viridis: viridisPalette,
+  cividis: cividisPalette,
+  magma: magmaPalette,
+  inferno: infernoPalette,
+  iron: ironPalette,
+  rainbow: rainbowPalette,
+};
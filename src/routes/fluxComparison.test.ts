@@ -0,0 +1,72 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { differenceLimit, fluxComparisonSummary, fluxDifference } from './fluxComparison';
+import type { GeoTiff } from './solar';
+
+const bounds = { north: 1, south: 0, east: 1, west: 0 };
+
+// Two pixels: a roof facing north-east that loses sun in winter, and the ground.
+const monthlyFlux: GeoTiff = {
+  width: 2,
+  height: 1,
+  rasters: [...Array(12).keys()].map((month) =>
+    Float32Array.of(month == 11 ? 40 : 160, month == 11 ? -9999 : 100),
+  ),
+  bounds,
+};
+const annualFlux: GeoTiff = { width: 2, height: 1, rasters: [Float32Array.of(1200, 1200)], bounds };
+const roof: GeoTiff = { width: 2, height: 1, rasters: [Uint32Array.of(1, 0)], bounds };
+
+describe('fluxComparison', () => {
+  it('subtracts the baseline month or the average month', () => {
+    const months = fluxDifference(monthlyFlux, annualFlux, { month: 11, baseline: 5 });
+    expect([...months.rasters[0]]).toEqual([-120, -9999]);
+
+    const average = fluxDifference(monthlyFlux, annualFlux, { month: 5, baseline: 'annual' });
+    expect([...average.rasters[0]]).toEqual([60, 0]);
+  });
+
+  it('sums up the roof only', () => {
+    const summary = fluxComparisonSummary(monthlyFlux, annualFlux, roof, {
+      month: 11,
+      baseline: 'annual',
+    });
+    expect(summary).toEqual({
+      roofPixels: 1,
+      baselineMean: 100,
+      monthMean: 40,
+      changePercent: -60,
+      lessSunPercent: 100,
+    });
+
+    const noRoof = { ...roof, rasters: [Uint32Array.of(0, 0)] };
+    const empty = fluxComparisonSummary(monthlyFlux, annualFlux, noRoof, {
+      month: 11,
+      baseline: 'annual',
+    });
+    expect(empty.roofPixels).toBe(0);
+  });
+
+  it('centers the colors on zero', () => {
+    const difference = fluxDifference(monthlyFlux, annualFlux, { month: 11, baseline: 5 });
+    expect(differenceLimit(difference, roof, 100)).toBe(120);
+    expect(differenceLimit({ ...difference, rasters: [Float32Array.of(0, 0)] }, roof, 100)).toBe(
+      100,
+    );
+  });
+});
@@ -0,0 +1,141 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { GeoTiff } from './solar';
+import { percentileRange } from './visualize';
+
+// Month to compare against, 0 for January, or the average month of the year.
+export type FluxBaseline = number | 'annual';
+
+export interface FluxComparison {
+  // Month compared, 0 for January.
+  month: number;
+  baseline: FluxBaseline;
+}
+
+export interface FluxComparisonSummary {
+  // Roof pixels with a valid flux in both months.
+  roofPixels: number;
+  // Average sunlight of the roof in kWh/kW.
+  baselineMean: number;
+  monthMean: number;
+  // Change from the baseline to the month, as a share of the baseline.
+  changePercent: number;
+  // Share of the roof with less sunlight than in the baseline, from 0 to 100.
+  lessSunPercent: number;
+}
+
+/**
+ * Subtracts the sunlight of the baseline from the sunlight of a month.
+ *
+ * The annual baseline is the annual flux divided by 12, an average month.
+ * Pixels invalid in either file are invalid (-9999).
+ *
+ * @param  {GeoTiff} monthlyFlux  Monthly flux, one band per month.
+ * @param  {GeoTiff} annualFlux   Annual flux, the same size as the monthly one.
+ * @param  {FluxComparison} comparison  Months to compare.
+ * @return {GeoTiff}  Difference in kWh/kW, positive where the month has more sun.
+ */
+export function fluxDifference(
+  monthlyFlux: GeoTiff,
+  annualFlux: GeoTiff,
+  comparison: FluxComparison,
+): GeoTiff {
+  const month = monthlyFlux.rasters[comparison.month];
+  const baseline = baselineFlux(monthlyFlux, annualFlux, comparison.baseline);
+  const difference = new Float32Array(month.length).fill(-9999);
+  for (let i = 0; i < month.length; i++) {
+    if (month[i] > -9999 && baseline[i] > -9999) {
+      difference[i] = month[i] - baseline[i];
+    }
+  }
+  return { ...monthlyFlux, rasters: [difference] };
+}
+
+/**
+ * Averages the sunlight of both months over the roof.
+ *
+ * @param  {GeoTiff} monthlyFlux  Monthly flux, one band per month.
+ * @param  {GeoTiff} annualFlux   Annual flux, the same size as the monthly one.
+ * @param  {GeoTiff} mask         Roof mask, it can have a different size than the flux.
+ * @param  {FluxComparison} comparison  Months to compare.
+ * @return {FluxComparisonSummary}  Roof averages, zero without roof pixels.
+ */
+export function fluxComparisonSummary(
+  monthlyFlux: GeoTiff,
+  annualFlux: GeoTiff,
+  mask: GeoTiff,
+  comparison: FluxComparison,
+): FluxComparisonSummary {
+  const month = monthlyFlux.rasters[comparison.month];
+  const baseline = baselineFlux(monthlyFlux, annualFlux, comparison.baseline);
+  let [roofPixels, baselineTotal, monthTotal, lessSunPixels] = [0, 0, 0, 0];
+  for (let y = 0; y < monthlyFlux.height; y++) {
+    const maskY = Math.floor((y * mask.height) / monthlyFlux.height);
+    for (let x = 0; x < monthlyFlux.width; x++) {
+      const maskX = Math.floor((x * mask.width) / monthlyFlux.width);
+      const i = y * monthlyFlux.width + x;
+      const onRoof = mask.rasters[0][maskY * mask.width + maskX];
+      if (!onRoof || month[i] <= -9999 || baseline[i] <= -9999) {
+        continue;
+      }
+      roofPixels++;
+      baselineTotal += baseline[i];
+      monthTotal += month[i];
+      if (month[i] < baseline[i]) {
+        lessSunPixels++;
+      }
+    }
+  }
+  if (roofPixels == 0) {
+    return { roofPixels, baselineMean: 0, monthMean: 0, changePercent: 0, lessSunPercent: 0 };
+  }
+  return {
+    roofPixels: roofPixels,
+    baselineMean: baselineTotal / roofPixels,
+    monthMean: monthTotal / roofPixels,
+    changePercent: baselineTotal > 0 ? (100 * (monthTotal - baselineTotal)) / baselineTotal : 0,
+    lessSunPercent: (100 * lessSunPixels) / roofPixels,
+  };
+}
+
+/**
+ * Finds a range centered on zero for the colors of a difference.
+ *
+ * Zero stays the middle color of a diverging palette, so the side with the
+ * largest change sets both limits.
+ *
+ * @param  {GeoTiff} difference  Difference from `fluxDifference`.
+ * @param  {GeoTiff} mask        Roof mask.
+ * @param  {number}  fallback    Limit without roof pixels or changes.
+ * @return {number}  Largest change on the roof, from the 2nd to 98th percentile.
+ */
+export function differenceLimit(difference: GeoTiff, mask: GeoTiff, fallback: number): number {
+  const range = percentileRange(difference, mask);
+  const limit = range ? Math.max(Math.abs(range.min), Math.abs(range.max)) : 0;
+  return limit > 0 ? limit : fallback;
+}
+
+function baselineFlux(
+  monthlyFlux: GeoTiff,
+  annualFlux: GeoTiff,
+  baseline: FluxBaseline,
+): ArrayLike<number> {
+  if (baseline != 'annual') {
+    return monthlyFlux.rasters[baseline];
+  }
+  return annualFlux.rasters[0].map((value) => (value > -9999 ? value / 12 : -9999));
+}
@@ -0,0 +1,97 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import * as geotiff from 'geotiff';
+import * as geokeysToProj4 from 'geotiff-geokeys-to-proj4';
+import proj4 from 'proj4';
+import type { GeoTiff, Raster } from './solar';
+
+// Messages between the main thread and the GeoTIFF worker.
+export interface DecodeRequest {
+  id: number;
+  arrayBuffer: ArrayBuffer;
+}
+
+export type DecodeResponse = { id: number; geoTiff: GeoTiff } | { id: number; error: string };
+
+/**
+ * Decodes the pixel values and lat/lon bounds of a GeoTIFF file.
+ *
+ * Runs in the GeoTIFF worker, or on the main thread where workers are not
+ * available. Unsigned integer bands are returned as `Uint32Array`, which holds
+ * the 31 day bits of the hourly shade, any other band as `Float32Array`.
+ *
+ * @param  {ArrayBuffer} arrayBuffer  Contents of the GeoTIFF file.
+ * @return {Promise<GeoTiff>}  Pixel values with shape and lat/lon bounds.
+ */
+export async function decodeGeoTIFF(arrayBuffer: ArrayBuffer): Promise<GeoTiff> {
+  const tiff = await geotiff.fromArrayBuffer(arrayBuffer);
+  const image = await tiff.getImage();
+  // Without `interleave`, there is one typed array for each band.
+  const rasters = (await image.readRasters()) as geotiff.TypedArray[];
+
+  // Reproject the bounding box into lat/lon coordinates.
+  const geoKeys = image.getGeoKeys();
+  const projObj = geokeysToProj4.toProj4(geoKeys);
+  const projection = proj4(projObj.proj4, 'WGS84');
+  const box = image.getBoundingBox();
+  const sw = projection.forward({
+    x: box[0] * projObj.coordinatesConversionParameters.x,
+    y: box[1] * projObj.coordinatesConversionParameters.y,
+  });
+  const ne = projection.forward({
+    x: box[2] * projObj.coordinatesConversionParameters.x,
+    y: box[3] * projObj.coordinatesConversionParameters.y,
+  });
+
+  return {
+    width: image.getWidth(),
+    height: image.getHeight(),
+    rasters: rasters.map(toRaster),
+    bounds: {
+      north: ne.y,
+      south: sw.y,
+      east: ne.x,
+      west: sw.x,
+    },
+  };
+}
+
+/**
+ * Buffers to transfer with a decoded GeoTIFF instead of copying them.
+ *
+ * @param  {GeoTiff} geoTiff  Decoded GeoTIFF.
+ * @return {ArrayBuffer[]}  Buffers of the rasters, each one only once.
+ */
+export function rasterBuffers(geoTiff: GeoTiff): ArrayBuffer[] {
+  return [...new Set(geoTiff.rasters.map((raster) => raster.buffer as ArrayBuffer))];
+}
+
+function toRaster(values: geotiff.TypedArray): Raster {
+  if (values instanceof Float32Array || values instanceof Uint32Array) {
+    return values;
+  }
+  // Signed values would wrap around as unsigned integers.
+  if (
+    values instanceof Float64Array ||
+    values instanceof Int8Array ||
+    values instanceof Int16Array ||
+    values instanceof Int32Array
+  ) {
+    return Float32Array.from(values);
+  }
+  return Uint32Array.from(values);
+}
@@ -0,0 +1,40 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+// Decodes GeoTIFF files off the main thread, see `parseGeoTIFF`.
+import {
+  decodeGeoTIFF,
+  rasterBuffers,
+  type DecodeRequest,
+  type DecodeResponse,
+} from './geoTiffDecoder';
+
+// The app's type-check only includes the DOM types, not the worker ones.
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<DecodeRequest>) => void) | null;
+  postMessage(message: DecodeResponse, transfer?: Transferable[]): void;
+};
+
+worker.onmessage = async ({ data: { id, arrayBuffer } }) => {
+  try {
+    const geoTiff = await decodeGeoTIFF(arrayBuffer);
+    // The rasters are moved to the main thread, not copied.
+    worker.postMessage({ id, geoTiff }, rasterBuffers(geoTiff));
+  } catch (e) {
+    console.error('geoTiffWorker\n', e);
+    worker.postMessage({ id, error: e instanceof Error ? e.message : String(e) });
+  }
+};
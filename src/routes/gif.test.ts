@@ -0,0 +1,83 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { encodeGif, lzwEncode } from './gif';
+
+// Decodes GIF LZW codes, like an image viewer would.
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | undefined;
+  let [buffer, bufferBits, position] = [0, 0, 0];
+  for (;;) {
+    while (bufferBits < codeSize) {
+      buffer |= data[position++] << bufferBits;
+      bufferBits += 8;
+    }
+    const code = buffer & ((1 << codeSize) - 1);
+    buffer >>= codeSize;
+    bufferBits -= codeSize;
+    if (code == clearCode) {
+      table = [...Array(clearCode + 2).keys()].map((i) => [i]);
+      codeSize = minCodeSize + 1;
+      previous = undefined;
+      continue;
+    }
+    if (code == clearCode + 1) {
+      return output;
+    }
+    const entry = table[code] ?? [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) {
+      table.push([...previous, entry[0]]);
+      if (table.length == 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    }
+    previous = entry;
+  }
+}
+
+describe('gif', () => {
+  it('compresses the color indices without losing any', () => {
+    const indices = Uint8Array.from({ length: 20000 }, (_, i) => (i * 7919) % 13 ^ (i >> 9));
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual([...indices]);
+
+    const flat = new Uint8Array(5000).fill(42);
+    expect(lzwDecode(lzwEncode(flat, 8), 8)).toEqual([...flat]);
+  });
+
+  it('writes a looping GIF with a frame for each image', () => {
+    const frame = {
+      width: 3,
+      height: 2,
+      pixels: Uint8ClampedArray.from({ length: 24 }, (_, i) => (i % 4 == 3 ? 255 : i * 10)),
+    };
+    const gif = encodeGif([frame, frame], 500);
+    expect(new TextDecoder().decode(gif.subarray(0, 6))).toBe('GIF89a');
+    expect([gif[6], gif[8]]).toEqual([3, 2]);
+    expect(new TextDecoder().decode(gif).match(/NETSCAPE2\.0/)).toBeTruthy();
+    // One image descriptor per frame, after a 500 ms delay.
+    const delays = [...gif.keys()].filter(
+      (i) => gif[i] == 0x21 && gif[i + 1] == 0xf9 && gif[i + 4] == 50,
+    );
+    expect(delays.length).toBe(2);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+});
@@ -0,0 +1,152 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+export interface GifFrame {
+  width: number;
+  height: number;
+  // RGBA values, like `ImageData.data`.
+  pixels: Uint8ClampedArray;
+}
+
+// Levels of each channel in the color table, 6 x 6 x 6 colors.
+const levels = 6;
+
+/**
+ * Encodes frames into an animated GIF that loops forever.
+ *
+ * Every frame uses the same color table, a 6 x 6 x 6 color cube. That's
+ * plenty for the layers, which only have the colors of their palette, but
+ * photos get visible bands.
+ *
+ * @param  {GifFrame[]} frames  Frames of the same size, in order.
+ * @param  {number} delayMs  Time each frame is shown, in steps of 10 ms.
+ * @return {Uint8Array}  Contents of the `.gif` file.
+ */
+export function encodeGif(frames: GifFrame[], delayMs: number): Uint8Array {
+  const { width, height } = frames[0];
+  const bytes: number[] = [];
+  const write16 = (x: number) => bytes.push(x & 0xff, (x >> 8) & 0xff);
+
+  bytes.push(...new TextEncoder().encode('GIF89a'));
+  write16(width);
+  write16(height);
+  // Global color table of 256 colors, 8 bits per channel.
+  bytes.push(0xf7, 0, 0);
+  for (let i = 0; i < 256; i++) {
+    const cube = i < levels ** 3;
+    const [r, g, b] = [Math.floor(i / 36), Math.floor(i / 6) % 6, i % 6];
+    bytes.push(...(cube ? [r, g, b].map((x) => Math.round((x * 255) / (levels - 1))) : [0, 0, 0]));
+  }
+  // Netscape extension, loops forever.
+  bytes.push(0x21, 0xff, 0x0b, ...new TextEncoder().encode('NETSCAPE2.0'), 3, 1, 0, 0, 0);
+
+  for (const frame of frames) {
+    // Graphic control extension with the delay in hundredths of a second.
+    bytes.push(0x21, 0xf9, 4, 0);
+    write16(Math.round(delayMs / 10));
+    bytes.push(0, 0);
+    // Image descriptor covering the whole image, without a local color table.
+    bytes.push(0x2c);
+    write16(0);
+    write16(0);
+    write16(width);
+    write16(height);
+    bytes.push(0);
+
+    const data = lzwEncode(colorIndices(frame), 8);
+    bytes.push(8);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0);
+  }
+  bytes.push(0x3b);
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Compresses color indices with the variable length LZW codes of GIF.
+ *
+ * @param  {Uint8Array} indices  Color index of each pixel.
+ * @param  {number} minCodeSize  Bits of the color indices.
+ * @return {Uint8Array}  Codes packed from the least significant bit.
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let [buffer, bufferBits] = [0, 0];
+  let codeSize = minCodeSize + 1;
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  // Sequences seen so far, by the code of their prefix and their last index.
+  let codes = new Map<number, number>();
+  let nextCode = endCode + 1;
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = prefix * 256 + indices[i];
+    const code = codes.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 4096) {
+      codes.set(key, nextCode++);
+      // The decoder adds its code one step later, so it grows one code later.
+      if (nextCode > 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    } else {
+      // The table is full, both sides start over.
+      emit(clearCode);
+      codes = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = indices[i];
+  }
+  if (indices.length > 0) {
+    emit(prefix);
+  }
+  emit(endCode);
+  if (bufferBits > 0) {
+    output.push(buffer & 0xff);
+  }
+  return Uint8Array.from(output);
+}
+
+// Nearest color of the color cube for each pixel, transparent pixels are black.
+function colorIndices({ pixels }: GifFrame): Uint8Array {
+  const indices = new Uint8Array(pixels.length / 4);
+  const level = (x: number) => Math.round((x * (levels - 1)) / 255);
+  for (let i = 0; i < indices.length; i++) {
+    const alpha = pixels[i * 4 + 3] / 255;
+    const [r, g, b] = [0, 1, 2].map((c) => level(pixels[i * 4 + c] * alpha));
+    indices[i] = r * 36 + g * 6 + b;
+  }
+  return indices;
+}
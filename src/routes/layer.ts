@@ -14,14 +14,43 @@
  limitations under the License.
  */
 
-import { binaryPalette, ironPalette, rainbowPalette, sunlightPalette } from './colors';
-import { downloadGeoTIFF, type DataLayersResponse, type LayerId, type Bounds } from './solar';
-import { renderPalette, renderRGB } from './visualize';
+import {
+  aspectPalette,
+  binaryPalette,
+  divergingPalette,
+  hillshadePalette,
+  ironPalette,
+  rainbowPalette,
+  slopePalette,
+  sunlightPalette,
+} from './colors';
+import {
+  differenceLimit,
+  fluxComparisonSummary,
+  fluxDifference,
+  type FluxComparison,
+  type FluxComparisonSummary,
+} from './fluxComparison';
+import type { DataLayersResponse, DataLayerView, GeoTiff, LayerId, Bounds } from './solar';
+import type { SolarRequestOptions } from './rateLimiter';
+import { LayerProgressTracker, type LayerProgress } from './layerProgress';
+import { RasterStore } from './rasterStore';
+import type { SolarApiClient } from './solarClient';
+import { hillshade, slopeAspect, validMask } from './terrain';
+import { legendTicks, percentileRange, renderPalette, renderRGB } from './visualize';
 
 export interface Palette {
   colors: string[];
+  // Labels at both ends of the legend.
   min: string;
   max: string;
+  // Values of the first and last colors, for layers with numeric values.
+  minValue?: number;
+  maxValue?: number;
+  ticks?: number[];
+  // Shown instead of the tick values, like compass directions.
+  tickLabels?: string[];
+  unit?: string;
 }
 
 export interface Layer {
@@ -29,16 +58,71 @@ export interface Layer {
   render: (showRoofOnly: boolean, month: number, day: number) => HTMLCanvasElement[];
   bounds: Bounds;
   palette?: Palette;
+  // Roof averages of the flux comparison.
+  comparison?: FluxComparisonSummary;
+}
+
+// Smallest Data Layers view with every file the layer downloads, the mask
+// is always needed for the bounds and to show the roof only.
+export const layerViews: Record<LayerId, DataLayerView> = {
+  mask: 'IMAGERY_LAYERS',
+  dsm: 'IMAGERY_LAYERS',
+  rgb: 'IMAGERY_LAYERS',
+  annualFlux: 'IMAGERY_AND_ANNUAL_FLUX_LAYERS',
+  monthlyFlux: 'IMAGERY_AND_ALL_FLUX_LAYERS',
+  hourlyShade: 'FULL_LAYERS',
+  slope: 'IMAGERY_LAYERS',
+  aspect: 'IMAGERY_LAYERS',
+  hillshade: 'IMAGERY_LAYERS',
+  fluxComparison: 'IMAGERY_AND_ALL_FLUX_LAYERS',
+};
+
+// Colors of the flux layers: a fixed range to compare buildings, or the
+// 2nd to 98th percentile of the roof to see the differences within a roof.
+export type FluxRange = 'fixed' | 'roof';
+
+export interface LayerRequestOptions extends SolarRequestOptions {
+  // Month shown first, the other months of the hourly shade are prefetched.
+  month?: number;
+  // Called whenever a file of the layer makes progress.
+  onProgress?: (progress: LayerProgress) => void;
+  // Rasters of the building shared between its layers, like the mask.
+  rasters?: RasterStore;
+  // Range of the flux layers, defaults to fixed.
+  fluxRange?: FluxRange;
+  // Colors of the layers with a sequential scale, like the DSM and the flux,
+  // instead of their own.
+  colors?: string[];
+  // Months of the flux comparison, defaults to December against the average month.
+  comparison?: FluxComparison;
 }
 
 export async function getLayer(
   layerId: LayerId,
   urls: DataLayersResponse,
-  googleMapsApiKey: string,
+  solarApi: SolarApiClient,
+  options: LayerRequestOptions = {},
 ): Promise<Layer> {
+  // Aborting the signal cancels all the downloads of the layer.
+  const progress = new LayerProgressTracker(options.onProgress ?? (() => {}));
+  const rasters = options.rasters ?? new RasterStore();
+  const download = (url: string, name: string, month?: number) => {
+    const onProgress = progress.track(name, month);
+    const file = month === undefined ? name : `${name}${month}`;
+    return rasters.get(
+      file,
+      () =>
+        solarApi.downloadGeoTIFF(url, {
+          signal: options.signal,
+          priority: month === undefined || month == options.month ? options.priority : 'prefetch',
+          onProgress,
+        }),
+      onProgress,
+    );
+  };
   const get: Record<LayerId, () => Promise<Layer>> = {
     mask: async () => {
-      const mask = await downloadGeoTIFF(urls.maskUrl, googleMapsApiKey);
+      const mask = await download(urls.maskUrl, 'mask');
       const colors = binaryPalette;
       return {
         id: layerId,
@@ -59,13 +143,14 @@ export async function getLayer(
     },
     dsm: async () => {
       const [mask, data] = await Promise.all([
-        downloadGeoTIFF(urls.maskUrl, googleMapsApiKey),
-        downloadGeoTIFF(urls.dsmUrl, googleMapsApiKey),
+        download(urls.maskUrl, 'mask'),
+        download(urls.dsmUrl, 'dsm'),
       ]);
-      const sortedValues = Array.from(data.rasters[0]).sort((x, y) => x - y);
+      // Typed arrays sort by numeric value.
+      const sortedValues = data.rasters[0].slice().sort();
       const minValue = sortedValues[0];
       const maxValue = sortedValues.slice(-1)[0];
-      const colors = rainbowPalette;
+      const colors = options.colors ?? rainbowPalette;
       return {
         id: layerId,
         bounds: mask.bounds,
@@ -73,6 +158,10 @@ export async function getLayer(
           colors: colors,
           min: `${minValue.toFixed(1)} m`,
           max: `${maxValue.toFixed(1)} m`,
+          minValue: minValue,
+          maxValue: maxValue,
+          ticks: legendTicks(minValue, maxValue),
+          unit: 'm',
         },
         render: (showRoofOnly) => [
           renderPalette({
@@ -87,8 +176,8 @@ export async function getLayer(
     },
     rgb: async () => {
       const [mask, data] = await Promise.all([
-        downloadGeoTIFF(urls.maskUrl, googleMapsApiKey),
-        downloadGeoTIFF(urls.rgbUrl, googleMapsApiKey),
+        download(urls.maskUrl, 'mask'),
+        download(urls.rgbUrl, 'rgb'),
       ]);
       return {
         id: layerId,
@@ -98,51 +187,46 @@ export async function getLayer(
     },
     annualFlux: async () => {
       const [mask, data] = await Promise.all([
-        downloadGeoTIFF(urls.maskUrl, googleMapsApiKey),
-        downloadGeoTIFF(urls.annualFluxUrl, googleMapsApiKey),
+        download(urls.maskUrl, 'mask'),
+        download(urls.annualFluxUrl, 'annualFlux'),
       ]);
-      const colors = ironPalette;
+      const colors = options.colors ?? ironPalette;
+      const { min, max } = fluxLimits(data, mask, options.fluxRange, 1800);
       return {
         id: layerId,
         bounds: mask.bounds,
-        palette: {
-          colors: colors,
-          min: 'Shady',
-          max: 'Sunny',
-        },
+        palette: fluxPalette(colors, min, max, 'kWh/kW/year'),
         render: (showRoofOnly) => [
           renderPalette({
             data: data,
             mask: showRoofOnly ? mask : undefined,
             colors: colors,
-            min: 0,
-            max: 1800,
+            min: min,
+            max: max,
           }),
         ],
       };
     },
     monthlyFlux: async () => {
       const [mask, data] = await Promise.all([
-        downloadGeoTIFF(urls.maskUrl, googleMapsApiKey),
-        downloadGeoTIFF(urls.monthlyFluxUrl, googleMapsApiKey),
+        download(urls.maskUrl, 'mask'),
+        download(urls.monthlyFluxUrl, 'monthlyFlux'),
       ]);
-      const colors = ironPalette;
+      const colors = options.colors ?? ironPalette;
+      // Each band has the sunlight of a single month.
+      const { min, max } = fluxLimits(data, mask, options.fluxRange, 200);
       return {
         id: layerId,
         bounds: mask.bounds,
-        palette: {
-          colors: colors,
-          min: 'Shady',
-          max: 'Sunny',
-        },
+        palette: fluxPalette(colors, min, max, 'kWh/kW/month'),
         render: (showRoofOnly) =>
           [...Array(12).keys()].map((month) =>
             renderPalette({
               data: data,
               mask: showRoofOnly ? mask : undefined,
               colors: colors,
-              min: 0,
-              max: 200,
+              min: min,
+              max: max,
               index: month,
             }),
           ),
@@ -150,8 +234,8 @@ export async function getLayer(
     },
     hourlyShade: async () => {
       const [mask, ...months] = await Promise.all([
-        downloadGeoTIFF(urls.maskUrl, googleMapsApiKey),
-        ...urls.hourlyShadeUrls.map((url) => downloadGeoTIFF(url, googleMapsApiKey)),
+        download(urls.maskUrl, 'mask'),
+        ...urls.hourlyShadeUrls.map((url, month) => download(url, 'hourlyShade', month)),
       ]);
       const colors = sunlightPalette;
       return {
@@ -180,6 +264,132 @@ export async function getLayer(
           ),
       };
     },
+    slope: async () => {
+      const [mask, dsm] = await Promise.all([
+        download(urls.maskUrl, 'mask'),
+        download(urls.dsmUrl, 'dsm'),
+      ]);
+      const { slope } = slopeAspect(dsm);
+      const colors = options.colors ?? slopePalette;
+      return {
+        id: layerId,
+        bounds: mask.bounds,
+        palette: {
+          colors: colors,
+          min: 'Flat',
+          max: 'Steep',
+          minValue: 0,
+          maxValue: 60,
+          ticks: legendTicks(0, 60, 4),
+          unit: '°',
+        },
+        render: (showRoofOnly) => [
+          renderPalette({
+            data: slope,
+            mask: validMask(slope, showRoofOnly ? mask : undefined),
+            colors: colors,
+            min: 0,
+            max: 60,
+          }),
+        ],
+      };
+    },
+    aspect: async () => {
+      const [mask, dsm] = await Promise.all([
+        download(urls.maskUrl, 'mask'),
+        download(urls.dsmUrl, 'dsm'),
+      ]);
+      const { aspect } = slopeAspect(dsm);
+      const colors = aspectPalette;
+      return {
+        id: layerId,
+        bounds: mask.bounds,
+        palette: {
+          colors: colors,
+          min: 'North',
+          max: 'North',
+          minValue: 0,
+          maxValue: 360,
+          ticks: [0, 90, 180, 270, 360],
+          tickLabels: ['N', 'E', 'S', 'W', 'N'],
+          unit: '°',
+        },
+        // Flat pixels don't face any direction, they are hidden.
+        render: (showRoofOnly) => [
+          renderPalette({
+            data: aspect,
+            mask: validMask(aspect, showRoofOnly ? mask : undefined),
+            colors: colors,
+            min: 0,
+            max: 360,
+          }),
+        ],
+      };
+    },
+    hillshade: async () => {
+      const [mask, dsm] = await Promise.all([
+        download(urls.maskUrl, 'mask'),
+        download(urls.dsmUrl, 'dsm'),
+      ]);
+      const { slope, aspect } = slopeAspect(dsm);
+      const light = hillshade(slope, aspect);
+      const colors = hillshadePalette;
+      return {
+        id: layerId,
+        bounds: mask.bounds,
+        palette: {
+          colors: colors,
+          min: 'Shade',
+          max: 'Light',
+          minValue: 0,
+          maxValue: 1,
+          ticks: legendTicks(0, 1),
+        },
+        render: (showRoofOnly) => [
+          renderPalette({
+            data: light,
+            mask: validMask(light, showRoofOnly ? mask : undefined),
+            colors: colors,
+            min: 0,
+            max: 1,
+          }),
+        ],
+      };
+    },
+    fluxComparison: async () => {
+      const [mask, monthlyFlux, annualFlux] = await Promise.all([
+        download(urls.maskUrl, 'mask'),
+        download(urls.monthlyFluxUrl, 'monthlyFlux'),
+        download(urls.annualFluxUrl, 'annualFlux'),
+      ]);
+      const comparison = options.comparison ?? { month: 11, baseline: 'annual' };
+      const data = fluxDifference(monthlyFlux, annualFlux, comparison);
+      const limit = differenceLimit(data, mask, 100);
+      const colors = divergingPalette;
+      return {
+        id: layerId,
+        bounds: mask.bounds,
+        palette: {
+          colors: colors,
+          min: 'Less sun',
+          max: 'More sun',
+          minValue: -limit,
+          maxValue: limit,
+          ticks: legendTicks(-limit, limit),
+          unit: 'kWh/kW/month',
+        },
+        comparison: fluxComparisonSummary(monthlyFlux, annualFlux, mask, comparison),
+        render: (showRoofOnly) => [
+          renderPalette({
+            data: data,
+            mask: validMask(data, showRoofOnly ? mask : undefined),
+            colors: colors,
+            min: -limit,
+            max: limit,
+          }),
+        ],
+      };
+    },
   };
   try {
     return get[layerId]();
@@ -188,3 +398,31 @@ export async function getLayer(
     throw e;
   }
 }
+
+function fluxLimits(
+  data: GeoTiff,
+  mask: GeoTiff,
+  range: FluxRange | undefined,
+  fixedMax: number,
+): { min: number; max: number } {
+  if (range == 'roof') {
+    const limits = percentileRange(data, mask);
+    // A roof with a single value can't be scaled.
+    if (limits && limits.max > limits.min) {
+      return limits;
+    }
+  }
+  return { min: 0, max: fixedMax };
+}
+
+function fluxPalette(colors: string[], min: number, max: number, unit: string): Palette {
+  return {
+    colors: colors,
+    min: 'Shady',
+    max: 'Sunny',
+    minValue: min,
+    maxValue: max,
+    ticks: legendTicks(min, max),
+    unit: unit,
+  };
+}
@@ -0,0 +1,65 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { exportName, groundOverlayKml, worldFile } from './layerExport';
+import { crc32, createZip } from './zip';
+
+const bounds = { north: 44.6, south: 44.5, east: 10.9, west: 10.8 };
+
+describe('layerExport', () => {
+  it('names the files after the month and hour shown', () => {
+    expect(exportName('annualFlux', 3, 14, 12)).toBe('annualFlux');
+    expect(exportName('monthlyFlux', 3, 14, 12)).toBe('monthlyFlux-m04');
+    expect(exportName('hourlyShade', 3, 14, 9)).toBe('hourlyShade-m04-d14-h09');
+  });
+
+  it('places the image with a world file', () => {
+    const lines = worldFile(bounds, 100, 50).trim().split('\n').map(Number);
+    expect(lines[0]).toBeCloseTo(0.001);
+    expect(lines.slice(1, 3)).toEqual([0, 0]);
+    expect(lines[3]).toBeCloseTo(-0.002);
+    // Center of the top left pixel.
+    expect(lines[4]).toBeCloseTo(10.8005);
+    expect(lines[5]).toBeCloseTo(44.599);
+  });
+
+  it('writes a KML ground overlay', () => {
+    const kml = groundOverlayKml('dsm', 'dsm.png', bounds);
+    expect(kml).toContain('<href>dsm.png</href>');
+    expect(kml).toContain('<north>44.6</north>');
+    expect(kml).toContain('<west>10.8</west>');
+  });
+});
+
+describe('zip', () => {
+  it('computes the CRC-32 of zip files', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('stores the files with a central directory', () => {
+    const data = new TextEncoder().encode('hello');
+    const zip = createZip([{ name: 'a.txt', data }]);
+    const view = new DataView(zip.buffer);
+    expect(zip.length).toBe(30 + 5 + 5 + 46 + 5 + 22);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(new TextDecoder().decode(zip.slice(35, 40))).toBe('hello');
+    expect(view.getUint32(40, true)).toBe(0x02014b50);
+    // The end record points to the central directory.
+    expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint32(zip.length - 6, true)).toBe(40);
+  });
+});
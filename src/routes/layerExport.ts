@@ -0,0 +1,183 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { Bounds, DataLayersResponse, LayerId } from './solar';
+import { createZip } from './zip';
+
+export type ExportFormat = 'png' | 'kmz' | 'geoTiff';
+
+/**
+ * Names the exported files after the layer and what it shows.
+ *
+ * @param  {LayerId} layerId  Layer to export.
+ * @param  {number}  month    Selected month, 0 for January.
+ * @param  {number}  day      Selected day of the month, from 1.
+ * @param  {number}  hour     Selected hour of the day, from 0.
+ * @return {string}  File name without extension, like `monthlyFlux-m04`.
+ */
+export function exportName(layerId: LayerId, month: number, day: number, hour: number): string {
+  const pad = (x: number) => String(x).padStart(2, '0');
+  if (layerId == 'monthlyFlux') {
+    return `${layerId}-m${pad(month + 1)}`;
+  }
+  if (layerId == 'hourlyShade') {
+    return `${layerId}-m${pad(month + 1)}-d${pad(day)}-h${pad(hour)}`;
+  }
+  return layerId;
+}
+
+/**
+ * Finds the Data Layers file behind a layer.
+ *
+ * The monthly flux file has all the months, the hourly shade has one file
+ * per month with all its days and hours.
+ *
+ * @param  {LayerId} layerId  Layer to export.
+ * @param  {DataLayersResponse} urls  URLs of the building.
+ * @param  {number}  month    Selected month, 0 for January.
+ * @return {{name, url}}  File name without extension and URL.
+ */
+export function layerFile(
+  layerId: LayerId,
+  urls: DataLayersResponse,
+  month: number,
+): { name: string; url: string } {
+  const files: Record<LayerId, { name: string; url: string }> = {
+    mask: { name: 'mask', url: urls.maskUrl },
+    dsm: { name: 'dsm', url: urls.dsmUrl },
+    rgb: { name: 'rgb', url: urls.rgbUrl },
+    annualFlux: { name: 'annualFlux', url: urls.annualFluxUrl },
+    monthlyFlux: { name: 'monthlyFlux', url: urls.monthlyFluxUrl },
+    hourlyShade: {
+      name: `hourlyShade-m${String(month + 1).padStart(2, '0')}`,
+      url: urls.hourlyShadeUrls[month],
+    },
+    // Computed from the DSM, which is the original file.
+    slope: { name: 'dsm', url: urls.dsmUrl },
+    aspect: { name: 'dsm', url: urls.dsmUrl },
+    hillshade: { name: 'dsm', url: urls.dsmUrl },
+    fluxComparison: { name: 'monthlyFlux', url: urls.monthlyFluxUrl },
+  };
+  return files[layerId];
+}
+
+/**
+ * Writes an ESRI world file, which places an image on a map.
+ *
+ * The bounds are in lat/lon, so GIS apps should open the image as WGS84
+ * (EPSG:4326). Coordinates are at the center of the corner pixel.
+ *
+ * @param  {Bounds} bounds  Lat/lon bounds of the image.
+ * @param  {number} width   Image width in pixels.
+ * @param  {number} height  Image height in pixels.
+ * @return {string}  Contents of the `.pgw` file.
+ */
+export function worldFile(bounds: Bounds, width: number, height: number): string {
+  const pixelWidth = (bounds.east - bounds.west) / width;
+  const pixelHeight = (bounds.south - bounds.north) / height;
+  return [
+    pixelWidth,
+    0,
+    0,
+    pixelHeight,
+    bounds.west + pixelWidth / 2,
+    bounds.north + pixelHeight / 2,
+  ]
+    .map(String)
+    .join('\n')
+    .concat('\n');
+}
+
+/**
+ * Writes a KML ground overlay, for Google Earth.
+ *
+ * @param  {string} name       Name of the overlay.
+ * @param  {string} imageFile  Image file in the same KMZ archive.
+ * @param  {Bounds} bounds     Lat/lon bounds of the image.
+ * @return {string}  Contents of the `doc.kml` file.
+ */
+export function groundOverlayKml(name: string, imageFile: string, bounds: Bounds): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <GroundOverlay>
+    <name>${name}</name>
+    <Icon>
+      <href>${imageFile}</href>
+    </Icon>
+    <LatLonBox>
+      <north>${bounds.north}</north>
+      <south>${bounds.south}</south>
+      <east>${bounds.east}</east>
+      <west>${bounds.west}</west>
+    </LatLonBox>
+  </GroundOverlay>
+</kml>
+`;
+}
+
+/**
+ * Packs a rendered layer as a PNG with its world file, or as a KMZ.
+ *
+ * @param  {'png' | 'kmz'} format  Format of the archive.
+ * @param  {HTMLCanvasElement} canvas  Rendered layer.
+ * @param  {Bounds} bounds  Lat/lon bounds of the layer.
+ * @param  {string} name    File name without extension.
+ * @return {Promise<Blob>}  Zip or KMZ archive.
+ */
+export async function exportCanvas(
+  format: 'png' | 'kmz',
+  canvas: HTMLCanvasElement,
+  bounds: Bounds,
+  name: string,
+): Promise<Blob> {
+  const png = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Empty canvas'))),
+      'image/png',
+    ),
+  );
+  const image = new Uint8Array(await png.arrayBuffer());
+  const text = (value: string) => new TextEncoder().encode(value);
+  const files =
+    format == 'png'
+      ? [
+          { name: `${name}.png`, data: image },
+          { name: `${name}.pgw`, data: text(worldFile(bounds, canvas.width, canvas.height)) },
+        ]
+      : [
+          // Google Earth opens the first KML file of the archive.
+          { name: 'doc.kml', data: text(groundOverlayKml(name, `${name}.png`, bounds)) },
+          { name: `${name}.png`, data: image },
+        ];
+  const type = format == 'png' ? 'application/zip' : 'application/vnd.google-earth.kmz';
+  return new Blob([createZip(files)], { type });
+}
+
+/**
+ * Saves a file to the user's downloads.
+ *
+ * @param  {Blob}   blob      Contents of the file.
+ * @param  {string} fileName  Name of the file, with extension.
+ */
+export function saveFile(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser time to start the download.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,59 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LayerProgressTracker, type LayerProgress } from './layerProgress';
+
+describe('LayerProgressTracker', () => {
+  let now = 0;
+  let progress: LayerProgress | undefined;
+
+  function createTracker() {
+    now = 0;
+    return new LayerProgressTracker(
+      (update) => (progress = update),
+      () => now,
+    );
+  }
+
+  it('guesses the size of the files that did not start yet', () => {
+    const tracker = createTracker();
+    const mask = tracker.track('mask');
+    tracker.track('hourlyShade', 0);
+
+    mask({ state: 'downloading', receivedBytes: 100, totalBytes: 400 });
+    expect(progress).toMatchObject({ doneFiles: 0, receivedBytes: 100, expectedBytes: 800 });
+  });
+
+  it('estimates the time left from the bytes received so far', () => {
+    const tracker = createTracker();
+    const mask = tracker.track('mask');
+    const dsm = tracker.track('dsm');
+    expect(progress?.remainingMs).toBeUndefined();
+
+    now = 1000;
+    mask({ state: 'done', receivedBytes: 200, totalBytes: 200, decodeMs: 10 });
+    dsm({ state: 'downloading', receivedBytes: 100, totalBytes: 600 });
+    expect(progress?.doneFiles).toBe(1);
+    expect(progress?.remainingMs).toBeCloseTo((1000 * 500) / 300);
+
+    dsm({ state: 'decoding', receivedBytes: 600, totalBytes: 600 });
+    expect(progress?.remainingMs).toBeUndefined();
+    dsm({ state: 'done', receivedBytes: 600, totalBytes: 600, decodeMs: 20 });
+    expect(progress).toMatchObject({ doneFiles: 2, remainingMs: 0 });
+    expect(progress?.files.map((file) => file.decodeMs)).toEqual([10, 20]);
+  });
+});
@@ -0,0 +1,102 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { DownloadProgress, DownloadState } from './solar';
+
+export interface FileProgress {
+  // Data layer file, like `mask` or `hourlyShade`.
+  name: string;
+  // Month of the hourly shade files, 0 for January.
+  month?: number;
+  state: DownloadState | 'queued';
+  receivedBytes: number;
+  totalBytes?: number;
+  decodeMs?: number;
+}
+
+export interface LayerProgress {
+  files: FileProgress[];
+  doneFiles: number;
+  receivedBytes: number;
+  // Sizes not known yet are guessed from the files that sent one.
+  expectedBytes: number;
+  // Time left to download and decode every file, once it can be estimated.
+  remainingMs?: number;
+}
+
+/**
+ * Adds up the progress of the files downloaded for a layer.
+ *
+ * The remaining time assumes the bytes left arrive at the same rate as the
+ * bytes received so far, it's unknown while the last files are decoded.
+ */
+export class LayerProgressTracker {
+  private files: FileProgress[] = [];
+  private startedAt: number;
+
+  constructor(
+    private onProgress: (progress: LayerProgress) => void,
+    private now: () => number = () => performance.now(),
+  ) {
+    this.startedAt = now();
+  }
+
+  /**
+   * Adds a file to the layer.
+   *
+   * @param  {string} name   Data layer file.
+   * @param  {number} month  Month of the hourly shade files.
+   * @return {(progress: DownloadProgress) => void}  Progress callback of the file.
+   */
+  track(name: string, month?: number): (progress: DownloadProgress) => void {
+    const file: FileProgress = { name, month, state: 'queued', receivedBytes: 0 };
+    this.files.push(file);
+    this.report();
+    return (progress) => {
+      Object.assign(file, progress);
+      this.report();
+    };
+  }
+
+  get progress(): LayerProgress {
+    const files = this.files.map((file) => ({ ...file }));
+    const sizes = files.map((file) =>
+      file.totalBytes ? Math.max(file.totalBytes, file.receivedBytes) : undefined,
+    );
+    const knownSizes = sizes.filter((size): size is number => size !== undefined);
+    const averageSize =
+      knownSizes.length > 0 ? knownSizes.reduce((x, y) => x + y, 0) / knownSizes.length : 0;
+    const expectedBytes = sizes.reduce<number>(
+      (total, size, i) => total + (size ?? Math.max(averageSize, files[i].receivedBytes)),
+      0,
+    );
+    const receivedBytes = files.reduce((total, file) => total + file.receivedBytes, 0);
+    const doneFiles = files.filter((file) => file.state == 'done').length;
+
+    const elapsedMs = this.now() - this.startedAt;
+    let remainingMs: number | undefined;
+    if (doneFiles == files.length) {
+      remainingMs = 0;
+    } else if (receivedBytes > 0 && receivedBytes < expectedBytes && knownSizes.length > 0) {
+      remainingMs = (elapsedMs * (expectedBytes - receivedBytes)) / receivedBytes;
+    }
+    return { files, doneFiles, receivedBytes, expectedBytes, remainingMs };
+  }
+
+  private report() {
+    this.onProgress(this.progress);
+  }
+}
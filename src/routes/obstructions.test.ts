@@ -0,0 +1,96 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { detectObstructions, fitPlane, obstructedPanels } from './obstructions';
+import type { GeoTiff, RoofSegmentSizeAndSunshineStats, SolarPanel } from './solar';
+
+// 10 x 10 pixels of about 1 meter at the equator, centered on 0, 0.
+const meter = 1 / 111195;
+const bounds = { north: 5 * meter, south: -5 * meter, east: 5 * meter, west: -5 * meter };
+
+const segment = {
+  pitchDegrees: 45,
+  azimuthDegrees: 180,
+  center: { latitude: 0, longitude: 0 },
+  boundingBox: {
+    sw: { latitude: -5 * meter, longitude: -5 * meter },
+    ne: { latitude: 5 * meter, longitude: 5 * meter },
+  },
+  planeHeightAtCenterMeters: 10,
+} as RoofSegmentSizeAndSunshineStats;
+
+// A roof rising to the north, with a 2 x 2 meters chimney 1.5 meters high.
+function roofWithChimney(): GeoTiff {
+  const heights = Float32Array.from({ length: 100 }, (_, i) => {
+    const [x, y] = [i % 10, Math.floor(i / 10)];
+    const chimney = x >= 2 && x < 4 && y >= 2 && y < 4 ? 1.5 : 0;
+    return 10 + (4.5 - y) + chimney;
+  });
+  return { width: 10, height: 10, rasters: [heights], bounds };
+}
+
+function panel(latitude: number, longitude: number): SolarPanel {
+  return {
+    center: { latitude: latitude * meter, longitude: longitude * meter },
+    orientation: 'LANDSCAPE',
+    segmentIndex: 0,
+    yearlyEnergyDcKwh: 400,
+  };
+}
+
+describe('obstructions', () => {
+  it('fits a plane to points', () => {
+    const points = [
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [2, 3],
+    ].map(([east, north]) => ({ east, north, height: 2 * east - north + 5 }));
+    const plane = fitPlane(points)!;
+    expect(plane.a).toBeCloseTo(2);
+    expect(plane.b).toBeCloseTo(-1);
+    expect(plane.c).toBeCloseTo(5);
+    expect(fitPlane(points.slice(0, 2))).toBeUndefined();
+  });
+
+  it('finds what sticks out of the roof plane', () => {
+    const labels = new Int32Array(100).fill(0);
+    const obstructions = detectObstructions(roofWithChimney(), labels, [segment]);
+    expect(obstructions.length).toBe(1);
+    expect(obstructions[0].pixels).toBe(4);
+    expect(obstructions[0].areaMeters2).toBeCloseTo(4, 1);
+    expect(obstructions[0].heightMeters).toBeCloseTo(1.5, 1);
+    // The outline goes around the pixel corners, from 3 to 1 meters west and north.
+    const longitudes = obstructions[0].polygon.map((point) => point.longitude / meter);
+    expect(Math.min(...longitudes)).toBeCloseTo(-3);
+    expect(Math.max(...longitudes)).toBeCloseTo(-1);
+
+    // Smaller groups are noise.
+    expect(detectObstructions(roofWithChimney(), labels, [segment], { minAreaMeters2: 5 })).toEqual(
+      [],
+    );
+  });
+
+  it('finds the panels over an obstruction', () => {
+    const labels = new Int32Array(100).fill(0);
+    const obstructions = detectObstructions(roofWithChimney(), labels, [segment]);
+    const panels = [panel(2, -2), panel(-3, 3)];
+    const size = { width: 1, height: 1.6 };
+    expect([...obstructedPanels(panels, [segment], size, obstructions)]).toEqual([0]);
+    expect(obstructedPanels(panels, [segment], size, []).size).toBe(0);
+  });
+});
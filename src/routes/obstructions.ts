@@ -0,0 +1,289 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { GeoTiff, LatLng, RoofSegmentSizeAndSunshineStats, SolarPanel } from './solar';
+import { pixelSize } from './terrain';
+import { localMeters } from './terrainMesh';
+
+export interface Obstruction {
+  segmentIndex: number;
+  pixels: number;
+  areaMeters2: number;
+  // Largest distance from the roof plane, negative below it like some skylights.
+  heightMeters: number;
+  // Convex outline of the pixels.
+  polygon: LatLng[];
+}
+
+export interface ObstructionOptions {
+  // Distance from the roof plane to be an obstruction, in meters.
+  toleranceMeters?: number;
+  // Smaller groups of pixels are noise of the DSM.
+  minAreaMeters2?: number;
+}
+
+// Plane height = east * a + north * b + c, in meters from a segment center.
+interface Plane {
+  a: number;
+  b: number;
+  c: number;
+}
+
+interface PlanePoint {
+  east: number;
+  north: number;
+  height: number;
+}
+
+/**
+ * Fits a plane to points with least squares.
+ *
+ * @param  {PlanePoint[]} points  Points in meters.
+ * @return {Plane | undefined}  Best plane, undefined with fewer than 3 points
+ *                              or all of them on a line.
+ */
+export function fitPlane(points: PlanePoint[]): Plane | undefined {
+  // Normal equations of the least squares, solved with Cramer's rule.
+  let [ee, en, e, nn, n, count, eh, nh, h] = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  for (const point of points) {
+    ee += point.east * point.east;
+    en += point.east * point.north;
+    e += point.east;
+    nn += point.north * point.north;
+    n += point.north;
+    count++;
+    eh += point.east * point.height;
+    nh += point.north * point.height;
+    h += point.height;
+  }
+  const det = (m: number[]) =>
+    m[0] * (m[4] * m[8] - m[5] * m[7]) -
+    m[1] * (m[3] * m[8] - m[5] * m[6]) +
+    m[2] * (m[3] * m[7] - m[4] * m[6]);
+  const matrix = [ee, en, e, en, nn, n, e, n, count];
+  const d = det(matrix);
+  if (count < 3 || Math.abs(d) < 1e-9) {
+    return undefined;
+  }
+  return {
+    a: det([eh, en, e, nh, nn, n, h, n, count]) / d,
+    b: det([ee, eh, e, en, nh, n, e, h, count]) / d,
+    c: det([ee, en, eh, en, nn, nh, e, n, h]) / d,
+  };
+}
+
+/**
+ * Finds what sticks out of each roof segment, like chimneys or dormers.
+ *
+ * A plane is fitted to the DSM pixels of each segment, then fitted again
+ * without the pixels off the first plane so obstructions don't tilt it.
+ * Neighbouring pixels off the plane are grouped into obstructions.
+ *
+ * @param  {GeoTiff} dsm  Digital Surface Model, with the same size as the labels.
+ * @param  {Int32Array} labels  Segment of each pixel, from `segmentPixels`.
+ * @param  {RoofSegmentSizeAndSunshineStats[]} segments  Roof segments of the building.
+ * @param  {ObstructionOptions} options  Tolerance, 0.3 meters by default, and
+ *                                       smallest area, 0.25 m² by default.
+ * @return {Obstruction[]}  Obstructions, from the largest.
+ */
+export function detectObstructions(
+  dsm: GeoTiff,
+  labels: Int32Array,
+  segments: RoofSegmentSizeAndSunshineStats[],
+  { toleranceMeters = 0.3, minAreaMeters2 = 0.25 }: ObstructionOptions = {},
+): Obstruction[] {
+  const { width, height, bounds } = dsm;
+  const heights = dsm.rasters[0];
+  const coordinates = (x: number, y: number): LatLng => ({
+    latitude: bounds.north - (y * (bounds.north - bounds.south)) / height,
+    longitude: bounds.west + (x * (bounds.east - bounds.west)) / width,
+  });
+
+  // Distance of each pixel from the plane of its segment.
+  const residuals = new Float32Array(width * height);
+  segments.forEach((segment, s) => {
+    const points: (PlanePoint & { i: number })[] = [];
+    labels.forEach((label, i) => {
+      if (label == s && heights[i] > -9999) {
+        const [x, y] = [i % width, Math.floor(i / width)];
+        const { east, north } = localMeters(coordinates(x + 0.5, y + 0.5), segment.center);
+        points.push({ i, east, north, height: heights[i] });
+      }
+    });
+    const plane = planeWithoutOutliers(points, toleranceMeters);
+    if (plane) {
+      points.forEach(({ i, east, north, height }) => {
+        residuals[i] = height - (plane.a * east + plane.b * north + plane.c);
+      });
+    }
+  });
+
+  // Groups of neighbouring pixels off the plane of the same segment.
+  const size = pixelSize(dsm);
+  const visited = new Uint8Array(width * height);
+  const obstructions: Obstruction[] = [];
+  const isOff = (i: number) => labels[i] >= 0 && Math.abs(residuals[i]) > toleranceMeters;
+  for (let start = 0; start < labels.length; start++) {
+    if (visited[start] || !isOff(start)) {
+      continue;
+    }
+    const group = [start];
+    visited[start] = 1;
+    for (let next = 0; next < group.length; next++) {
+      const [x, y] = [group[next] % width, Math.floor(group[next] / width)];
+      for (const [nx, ny] of [
+        [x - 1, y],
+        [x + 1, y],
+        [x, y - 1],
+        [x, y + 1],
+      ]) {
+        const i = ny * width + nx;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height || visited[i]) {
+          continue;
+        }
+        if (isOff(i) && labels[i] == labels[start]) {
+          visited[i] = 1;
+          group.push(i);
+        }
+      }
+    }
+    const areaMeters2 = group.length * size.x * size.y;
+    if (areaMeters2 < minAreaMeters2) {
+      continue;
+    }
+    const corners = group.flatMap((i) => {
+      const [x, y] = [i % width, Math.floor(i / width)];
+      return [
+        [x, y],
+        [x + 1, y],
+        [x + 1, y + 1],
+        [x, y + 1],
+      ];
+    });
+    const farthest = group.reduce(
+      (max, i) => (Math.abs(residuals[i]) > Math.abs(max) ? residuals[i] : max),
+      0,
+    );
+    obstructions.push({
+      segmentIndex: labels[start],
+      pixels: group.length,
+      areaMeters2,
+      heightMeters: farthest,
+      polygon: convexHull(corners).map(([x, y]) => coordinates(x, y)),
+    });
+  }
+  return obstructions.sort((a, b) => b.areaMeters2 - a.areaMeters2);
+}
+
+/**
+ * Finds the panels that overlap an obstruction.
+ *
+ * @param  {SolarPanel[]} panels  Panels of the building.
+ * @param  {RoofSegmentSizeAndSunshineStats[]} segments  Roof segments of the building.
+ * @param  {{width, height}} size  Panel size in meters.
+ * @param  {Obstruction[]} obstructions  Obstructions from `detectObstructions`.
+ * @return {Set<number>}  Indices of the panels in `panels`.
+ */
+export function obstructedPanels(
+  panels: SolarPanel[],
+  segments: RoofSegmentSizeAndSunshineStats[],
+  size: { width: number; height: number },
+  obstructions: Obstruction[],
+): Set<number> {
+  const overlapping = new Set<number>();
+  if (obstructions.length == 0) {
+    return overlapping;
+  }
+  const origin = obstructions[0].polygon[0];
+  const toLocal = (point: LatLng) => {
+    const { east, north } = localMeters(point, origin);
+    return [east, north];
+  };
+  const shapes = obstructions.map((obstruction) => obstruction.polygon.map(toLocal));
+  const radians = Math.PI / 180;
+  panels.forEach((panel, p) => {
+    const rotation =
+      ((panel.orientation == 'PORTRAIT' ? 90 : 0) + segments[panel.segmentIndex].azimuthDegrees) *
+      radians;
+    const [east, north] = toLocal(panel.center);
+    const [w, h] = [size.width / 2, size.height / 2];
+    // Same corners as the panels on the map, x to the north before the rotation.
+    const corners = [
+      [+w, +h],
+      [+w, -h],
+      [-w, -h],
+      [-w, +h],
+    ].map(([x, y]) => [
+      east + x * Math.sin(rotation) + y * Math.cos(rotation),
+      north + x * Math.cos(rotation) - y * Math.sin(rotation),
+    ]);
+    if (shapes.some((shape) => convexOverlap(corners, shape))) {
+      overlapping.add(p);
+    }
+  });
+  return overlapping;
+}
+
+function planeWithoutOutliers(points: PlanePoint[], toleranceMeters: number): Plane | undefined {
+  const plane = fitPlane(points);
+  if (!plane) {
+    return undefined;
+  }
+  const inliers = points.filter(
+    ({ east, north, height }) =>
+      Math.abs(height - (plane.a * east + plane.b * north + plane.c)) <= toleranceMeters,
+  );
+  return fitPlane(inliers) ?? plane;
+}
+
+// Andrew's monotone chain, counterclockwise without repeating the first point.
+function convexHull(points: number[][]): number[][] {
+  const sorted = [...new Map(points.map((p) => [`${p[0]},${p[1]}`, p])).values()].sort(
+    (p, q) => p[0] - q[0] || p[1] - q[1],
+  );
+  if (sorted.length < 3) {
+    return sorted;
+  }
+  const cross = (o: number[], a: number[], b: number[]) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const half = (points: number[][]) => {
+    const hull: number[][] = [];
+    for (const p of points) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], p) <= 0) {
+        hull.pop();
+      }
+      hull.push(p);
+    }
+    return hull.slice(0, -1);
+  };
+  return [...half(sorted), ...half([...sorted].reverse())];
+}
+
+// Separating axis test, two convex polygons overlap unless a side separates them.
+function convexOverlap(a: number[][], b: number[][]): boolean {
+  for (const polygon of [a, b]) {
+    for (let i = 0; i < polygon.length; i++) {
+      const [p, q] = [polygon[i], polygon[(i + 1) % polygon.length]];
+      const axis = [q[1] - p[1], p[0] - q[0]];
+      const project = (points: number[][]) => points.map(([x, y]) => x * axis[0] + y * axis[1]);
+      const [pa, pb] = [project(a), project(b)];
+      if (Math.max(...pa) <= Math.min(...pb) || Math.max(...pb) <= Math.min(...pa)) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
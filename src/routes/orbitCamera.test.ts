@@ -0,0 +1,46 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { cameraPosition, lookAt, multiply, perspective } from './orbitCamera';
+
+function transform(matrix: Float32Array, [x, y, z]: number[]): number[] {
+  const w = matrix[3] * x + matrix[7] * y + matrix[11] * z + matrix[15];
+  return [0, 1, 2].map(
+    (row) => (matrix[row] * x + matrix[row + 4] * y + matrix[row + 8] * z + matrix[row + 12]) / w,
+  );
+}
+
+describe('orbitCamera', () => {
+  it('looks at the target from the heading', () => {
+    const eye = cameraPosition({ heading: 180, elevation: 0, distance: 10, target: [1, 2, 3] });
+    // From the south, which is +z.
+    expect(eye[0]).toBeCloseTo(1);
+    expect(eye[1]).toBeCloseTo(2);
+    expect(eye[2]).toBeCloseTo(13);
+  });
+
+  it('projects the target to the center of the screen', () => {
+    const viewProjection = multiply(perspective(45, 1, 0.5, 100), lookAt([10, 10, 10], [0, 0, 0]));
+    const [x, y, z] = transform(viewProjection, [0, 0, 0]);
+    expect(x).toBeCloseTo(0);
+    expect(y).toBeCloseTo(0);
+    expect(z).toBeGreaterThan(-1);
+    expect(z).toBeLessThan(1);
+    // Points above the target are higher on the screen.
+    expect(transform(viewProjection, [0, 1, 0])[1]).toBeGreaterThan(0);
+  });
+});
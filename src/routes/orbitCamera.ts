@@ -0,0 +1,122 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+// 4x4 matrices in column-major order, like WebGL expects them.
+export type Matrix4 = Float32Array;
+
+export interface OrbitCamera {
+  // Direction the camera looks from, in degrees clockwise from north.
+  heading: number;
+  // Angle above the horizon, in degrees.
+  elevation: number;
+  // Distance to the target in meters.
+  distance: number;
+  // Point the camera looks at, in scene coordinates.
+  target: [number, number, number];
+}
+
+/**
+ * Projects the view of a camera onto the screen.
+ *
+ * @param  {number} fovDegrees  Vertical field of view.
+ * @param  {number} aspect  Width divided by height of the canvas.
+ * @param  {number} near  Distance of the near plane.
+ * @param  {number} far   Distance of the far plane.
+ * @return {Matrix4}  Perspective projection.
+ */
+export function perspective(
+  fovDegrees: number,
+  aspect: number,
+  near: number,
+  far: number,
+): Matrix4 {
+  const f = 1 / Math.tan((fovDegrees * Math.PI) / 360);
+  const depth = 1 / (near - far);
+  // prettier-ignore
+  return Float32Array.of(
+    f / aspect, 0, 0, 0,
+    0, f, 0, 0,
+    0, 0, (far + near) * depth, -1,
+    0, 0, 2 * far * near * depth, 0,
+  );
+}
+
+/**
+ * Moves the scene in front of a camera at `eye` looking at `target`.
+ *
+ * @param  {number[]} eye  Position of the camera.
+ * @param  {number[]} target  Point it looks at.
+ * @return {Matrix4}  View matrix, with y up.
+ */
+export function lookAt(eye: number[], target: number[]): Matrix4 {
+  const back = normalized(eye.map((x, i) => x - target[i]));
+  const right = normalized(cross([0, 1, 0], back));
+  const up = cross(back, right);
+  const dot = (a: number[]) => a.reduce((total, x, i) => total + x * eye[i], 0);
+  // prettier-ignore
+  return Float32Array.of(
+    right[0], up[0], back[0], 0,
+    right[1], up[1], back[1], 0,
+    right[2], up[2], back[2], 0,
+    -dot(right), -dot(up), -dot(back), 1,
+  );
+}
+
+/**
+ * Multiplies two matrices, `a` is applied after `b`.
+ *
+ * @param  {Matrix4} a  Left matrix.
+ * @param  {Matrix4} b  Right matrix.
+ * @return {Matrix4}  Product a * b.
+ */
+export function multiply(a: Matrix4, b: Matrix4): Matrix4 {
+  const product = new Float32Array(16);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      let total = 0;
+      for (let k = 0; k < 4; k++) {
+        total += a[k * 4 + row] * b[column * 4 + k];
+      }
+      product[column * 4 + row] = total;
+    }
+  }
+  return product;
+}
+
+/**
+ * Finds where an orbit camera is, in scene coordinates.
+ *
+ * @param  {OrbitCamera} camera  Camera around its target.
+ * @return {number[]}  Position of the camera, x to the east, y up, z to the south.
+ */
+export function cameraPosition({ heading, elevation, distance, target }: OrbitCamera): number[] {
+  const radians = Math.PI / 180;
+  const horizontal = distance * Math.cos(elevation * radians);
+  return [
+    target[0] + horizontal * Math.sin(heading * radians),
+    target[1] + distance * Math.sin(elevation * radians),
+    target[2] - horizontal * Math.cos(heading * radians),
+  ];
+}
+
+function cross(a: number[], b: number[]): number[] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalized(v: number[]): number[] {
+  const length = Math.hypot(...v) || 1;
+  return v.map((x) => x / length);
+}
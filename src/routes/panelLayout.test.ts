@@ -0,0 +1,156 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  addPanels,
+  configLayout,
+  layoutConfig,
+  removePanelsInside,
+  segmentAt,
+  setPanelsInstalled,
+  togglePanel,
+} from './panelLayout';
+import type { RoofSegmentSizeAndSunshineStats, SolarPanel } from './solar';
+
+// About 1 meter at the equator.
+const meter = 1 / 111195;
+const size = { width: 2, height: 1 };
+
+// Rounded meters from degrees, without -0.
+const meters = (degrees: number) => Math.round(degrees / meter) + 0;
+
+function segment(center: number[], azimuthDegrees: number): RoofSegmentSizeAndSunshineStats {
+  const [east, north] = center;
+  return {
+    pitchDegrees: 30,
+    azimuthDegrees,
+    center: { latitude: north * meter, longitude: east * meter },
+    boundingBox: {
+      sw: { latitude: (north - 5) * meter, longitude: (east - 5) * meter },
+      ne: { latitude: (north + 5) * meter, longitude: (east + 5) * meter },
+    },
+  } as RoofSegmentSizeAndSunshineStats;
+}
+
+function panel(east: number, north: number, yearlyEnergyDcKwh: number, segmentIndex = 0) {
+  return {
+    center: { latitude: north * meter, longitude: east * meter },
+    orientation: 'LANDSCAPE',
+    segmentIndex,
+    yearlyEnergyDcKwh,
+  } as SolarPanel;
+}
+
+// A roof facing south and one facing north, 8 meters east of it.
+const segments = [segment([0, 0], 180), segment([8, 0], 0)];
+const panels = [panel(0, 0, 500), panel(0, 2, 450), panel(8, 0, 300, 1)];
+
+describe('layoutConfig', () => {
+  it('sums up the installed panels by segment', () => {
+    const config = layoutConfig(togglePanel(configLayout(panels, 2), 2), segments);
+    expect(config.panelsCount).toBe(3);
+    expect(config.yearlyEnergyDcKwh).toBe(1250);
+    expect(config.roofSegmentSummaries).toEqual([
+      {
+        pitchDegrees: 30,
+        azimuthDegrees: 180,
+        panelsCount: 2,
+        yearlyEnergyDcKwh: 950,
+        segmentIndex: 0,
+      },
+      {
+        pitchDegrees: 30,
+        azimuthDegrees: 0,
+        panelsCount: 1,
+        yearlyEnergyDcKwh: 300,
+        segmentIndex: 1,
+      },
+    ]);
+  });
+
+  it('removes the panels toggled again', () => {
+    const layout = togglePanel(configLayout(panels, 2), 0);
+    expect(layout.installed).toEqual([false, true, false]);
+    expect(layoutConfig(layout, segments).yearlyEnergyDcKwh).toBe(450);
+  });
+});
+
+describe('setPanelsInstalled', () => {
+  it('removes and installs the panels again', () => {
+    const removed = setPanelsInstalled(configLayout(panels, 3), new Set([0, 2]), false);
+    expect(removed.installed).toEqual([false, true, false]);
+    expect(setPanelsInstalled(removed, [2], true).installed).toEqual([false, true, true]);
+  });
+});
+
+describe('removePanelsInside', () => {
+  it('removes the panels with their center in the lasso', () => {
+    const lasso = [
+      [-1, 1],
+      [1, 1],
+      [1, 3],
+      [-1, 3],
+    ].map(([east, north]) => ({ latitude: north * meter, longitude: east * meter }));
+    const layout = removePanelsInside(configLayout(panels, 3), lasso);
+    expect(layout.installed).toEqual([true, false, true]);
+  });
+});
+
+describe('segmentAt', () => {
+  it('finds the closest segment containing the point', () => {
+    expect(segmentAt({ latitude: 0, longitude: 3 * meter }, segments)).toBe(0);
+    expect(segmentAt({ latitude: 0, longitude: 5 * meter }, segments)).toBe(1);
+    expect(segmentAt({ latitude: 0, longitude: 20 * meter }, segments)).toBeUndefined();
+  });
+});
+
+describe('addPanels', () => {
+  it('snaps the new panels to the grid of the segment', () => {
+    // Facing south, the panel width runs to the south and its height to the west.
+    const from = { latitude: 0, longitude: 0 };
+    const to = { latitude: -2 * meter, longitude: -1 * meter };
+    const layout = addPanels(configLayout(panels, 0), segments, size, from, to);
+
+    expect(layout.installed).toEqual([true, false, false, true, true, true]);
+    const added = layout.panels.slice(3).map(({ center, segmentIndex, yearlyEnergyDcKwh }) => ({
+      east: meters(center.longitude),
+      north: meters(center.latitude),
+      segmentIndex,
+      yearlyEnergyDcKwh,
+    }));
+    expect(added).toEqual([
+      { east: -1, north: 0, segmentIndex: 0, yearlyEnergyDcKwh: 500 },
+      { east: 0, north: -2, segmentIndex: 0, yearlyEnergyDcKwh: 500 },
+      { east: -1, north: -2, segmentIndex: 0, yearlyEnergyDcKwh: 500 },
+    ]);
+  });
+
+  it('stays within the bounding box of the segment', () => {
+    const from = { latitude: 0, longitude: 0 };
+    const to = { latitude: -100 * meter, longitude: 0 };
+    const layout = addPanels(configLayout(panels, 3), segments, size, from, to);
+    // Two more rows of 2 meters fit in the 5 meters south of the center.
+    expect(layout.panels.length).toBe(5);
+    expect(layout.panels.every(({ center }) => center.latitude >= -5 * meter)).toBe(true);
+  });
+
+  it('does nothing outside the roof', () => {
+    const layout = configLayout(panels, 3);
+    const outside = { latitude: 0, longitude: 20 * meter };
+    expect(addPanels(layout, segments, size, outside, outside)).toBe(layout);
+  });
+});
@@ -0,0 +1,325 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type {
+  LatLng,
+  RoofSegmentSizeAndSunshineStats,
+  SolarPanel,
+  SolarPanelConfig,
+} from './solar';
+import { localMeters } from './terrainMesh';
+
+const earthRadius = 6371008.8;
+
+export type LayoutTool = 'toggle' | 'lasso' | 'add';
+
+/**
+ * Panels of a building edited by hand.
+ *
+ * The panels from the Solar API come first in their order, followed by the
+ * ones added in the editor, so the index of a panel never changes.
+ */
+export interface PanelLayout {
+  panels: SolarPanel[];
+  installed: boolean[];
+}
+
+// Panel size in meters, in landscape.
+export interface PanelSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Starts a layout from the panels of a config.
+ *
+ * @param  {SolarPanel[]} panels  Panels of the building, the best ones first.
+ * @param  {number} panelsCount  Panels of the config, which installs the best ones.
+ * @return {PanelLayout}  Layout with the same panels as the config.
+ */
+export function configLayout(panels: SolarPanel[], panelsCount: number): PanelLayout {
+  return { panels, installed: panels.map((_, i) => i < panelsCount) };
+}
+
+/**
+ * Sums up the installed panels like a config of the Solar API.
+ *
+ * @param  {PanelLayout} layout  Panels edited by hand.
+ * @param  {RoofSegmentSizeAndSunshineStats[]} segments  Roof segments of the building.
+ * @return {SolarPanelConfig}  Panels count and energy of the layout.
+ */
+export function layoutConfig(
+  layout: PanelLayout,
+  segments: RoofSegmentSizeAndSunshineStats[],
+): SolarPanelConfig {
+  const installed = layout.panels.filter((_, i) => layout.installed[i]);
+  const summaries = new Map<number, SolarPanelConfig['roofSegmentSummaries'][number]>();
+  for (const panel of installed) {
+    const summary = summaries.get(panel.segmentIndex) ?? {
+      pitchDegrees: segments[panel.segmentIndex]?.pitchDegrees ?? 0,
+      azimuthDegrees: segments[panel.segmentIndex]?.azimuthDegrees ?? 0,
+      panelsCount: 0,
+      yearlyEnergyDcKwh: 0,
+      segmentIndex: panel.segmentIndex,
+    };
+    summary.panelsCount++;
+    summary.yearlyEnergyDcKwh += panel.yearlyEnergyDcKwh;
+    summaries.set(panel.segmentIndex, summary);
+  }
+  return {
+    panelsCount: installed.length,
+    yearlyEnergyDcKwh: installed.reduce((total, panel) => total + panel.yearlyEnergyDcKwh, 0),
+    roofSegmentSummaries: [...summaries.values()].sort((a, b) => a.segmentIndex - b.segmentIndex),
+  };
+}
+
+/**
+ * Installs a panel, or removes it if it's installed.
+ *
+ * @param  {PanelLayout} layout  Panels edited by hand.
+ * @param  {number} index  Index of the panel.
+ * @return {PanelLayout}  New layout.
+ */
+export function togglePanel(layout: PanelLayout, index: number): PanelLayout {
+  const installed = [...layout.installed];
+  installed[index] = !installed[index];
+  return { ...layout, installed };
+}
+
+/**
+ * Installs or removes several panels at once, like the ones over an obstruction.
+ *
+ * @param  {PanelLayout} layout  Panels edited by hand.
+ * @param  {Iterable<number>} indices  Indices of the panels.
+ * @param  {boolean} installed  Whether to install or remove them.
+ * @return {PanelLayout}  New layout.
+ */
+export function setPanelsInstalled(
+  layout: PanelLayout,
+  indices: Iterable<number>,
+  installed: boolean,
+): PanelLayout {
+  const next = [...layout.installed];
+  for (const i of indices) {
+    next[i] = installed;
+  }
+  return { ...layout, installed: next };
+}
+
+/**
+ * Removes the panels with their center inside a lasso.
+ *
+ * @param  {PanelLayout} layout  Panels edited by hand.
+ * @param  {LatLng[]} lasso  Points drawn on the map, closed by the last one.
+ * @return {PanelLayout}  New layout.
+ */
+export function removePanelsInside(layout: PanelLayout, lasso: LatLng[]): PanelLayout {
+  if (lasso.length < 3) {
+    return layout;
+  }
+  return {
+    ...layout,
+    installed: layout.installed.map(
+      (installed, i) => installed && !insidePolygon(layout.panels[i].center, lasso),
+    ),
+  };
+}
+
+/**
+ * Finds the roof segment under a point.
+ *
+ * Bounding boxes of neighbouring segments overlap, so the closest center wins.
+ *
+ * @param  {LatLng} point  Point on the map.
+ * @param  {RoofSegmentSizeAndSunshineStats[]} segments  Roof segments of the building.
+ * @return {number | undefined}  Index of the segment, undefined outside the roof.
+ */
+export function segmentAt(
+  point: LatLng,
+  segments: RoofSegmentSizeAndSunshineStats[],
+): number | undefined {
+  let closest: number | undefined;
+  let closestDistance = Infinity;
+  segments.forEach((segment, i) => {
+    const { sw, ne } = segment.boundingBox;
+    if (
+      point.latitude < sw.latitude ||
+      point.latitude > ne.latitude ||
+      point.longitude < sw.longitude ||
+      point.longitude > ne.longitude
+    ) {
+      return;
+    }
+    const { east, north } = localMeters(point, segment.center);
+    const distance = Math.hypot(east, north);
+    if (distance < closestDistance) {
+      closest = i;
+      closestDistance = distance;
+    }
+  });
+  return closest;
+}
+
+/**
+ * Adds panels over the rectangle dragged on a roof segment.
+ *
+ * New panels snap to the grid of the panels already on the segment, rotated
+ * with its azimuth, and stay within its bounding box. Their energy is the one
+ * of the closest panel of the segment, or of the worst panel of the building
+ * on a segment without any. Panels already on the grid are installed again.
+ *
+ * @param  {PanelLayout} layout  Panels edited by hand.
+ * @param  {RoofSegmentSizeAndSunshineStats[]} segments  Roof segments of the building.
+ * @param  {PanelSize} size  Panel size in meters.
+ * @param  {LatLng} from  Where the drag started, on the segment to fill.
+ * @param  {LatLng} to  Where the drag ended.
+ * @return {PanelLayout}  New layout.
+ */
+export function addPanels(
+  layout: PanelLayout,
+  segments: RoofSegmentSizeAndSunshineStats[],
+  size: PanelSize,
+  from: LatLng,
+  to: LatLng,
+): PanelLayout {
+  const segmentIndex = segmentAt(from, segments);
+  if (segmentIndex === undefined) {
+    return layout;
+  }
+  const segment = segments[segmentIndex];
+  const onSegment = layout.panels
+    .map((panel, i) => ({ panel, i }))
+    .filter(({ panel }) => panel.segmentIndex == segmentIndex);
+  const reference = onSegment[0]?.panel;
+  const origin = reference?.center ?? segment.center;
+  const orientation = reference?.orientation ?? 'LANDSCAPE';
+  const rotation =
+    ((orientation == 'PORTRAIT' ? 90 : 0) + segment.azimuthDegrees) * (Math.PI / 180);
+  // Same axes as the panels on the map: the width along x, the height along y.
+  const toGrid = (point: LatLng) => {
+    const { east, north } = localMeters(point, origin);
+    return {
+      x: (east * Math.sin(rotation) + north * Math.cos(rotation)) / size.width,
+      y: (east * Math.cos(rotation) - north * Math.sin(rotation)) / size.height,
+    };
+  };
+  const fromGrid = (x: number, y: number): LatLng => {
+    const [u, v] = [x * size.width, y * size.height];
+    return offset(
+      origin,
+      u * Math.sin(rotation) + v * Math.cos(rotation),
+      u * Math.cos(rotation) - v * Math.sin(rotation),
+    );
+  };
+
+  const { sw, ne } = segment.boundingBox;
+  const box = [
+    sw,
+    ne,
+    { latitude: sw.latitude, longitude: ne.longitude },
+    { latitude: ne.latitude, longitude: sw.longitude },
+  ].map(toGrid);
+  const [start, end] = [toGrid(from), toGrid(to)];
+  const range = (a: number, b: number, limits: number[]) => [
+    Math.max(Math.round(Math.min(a, b)), Math.ceil(Math.min(...limits))),
+    Math.min(Math.round(Math.max(a, b)), Math.floor(Math.max(...limits))),
+  ];
+  const [minX, maxX] = range(
+    start.x,
+    end.x,
+    box.map(({ x }) => x),
+  );
+  const [minY, maxY] = range(
+    start.y,
+    end.y,
+    box.map(({ y }) => y),
+  );
+
+  const cells = new Map<string, number>();
+  for (const { panel, i } of onSegment) {
+    const { x, y } = toGrid(panel.center);
+    cells.set(`${Math.round(x)},${Math.round(y)}`, i);
+  }
+  const fallbackEnergy =
+    layout.panels.length > 0
+      ? Math.min(...layout.panels.map((panel) => panel.yearlyEnergyDcKwh))
+      : 0;
+  const panels = [...layout.panels];
+  const installed = [...layout.installed];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      const existing = cells.get(`${x},${y}`);
+      if (existing !== undefined) {
+        installed[existing] = true;
+        continue;
+      }
+      const center = fromGrid(x, y);
+      if (
+        center.latitude < sw.latitude ||
+        center.latitude > ne.latitude ||
+        center.longitude < sw.longitude ||
+        center.longitude > ne.longitude
+      ) {
+        continue;
+      }
+      const closest = onSegment.reduce<{ energy: number; distance: number } | undefined>(
+        (best, { panel }) => {
+          const grid = toGrid(panel.center);
+          const distance = Math.hypot(grid.x - x, grid.y - y);
+          return best && best.distance <= distance
+            ? best
+            : { energy: panel.yearlyEnergyDcKwh, distance };
+        },
+        undefined,
+      );
+      panels.push({
+        center,
+        orientation,
+        segmentIndex,
+        yearlyEnergyDcKwh: closest?.energy ?? fallbackEnergy,
+      });
+      installed.push(true);
+    }
+  }
+  return { panels, installed };
+}
+
+// Ray casting on the lat/lon of the points, the Earth is flat over a roof.
+function insidePolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [a, b] = [polygon[i], polygon[j]];
+    if (
+      a.latitude > point.latitude != b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) +
+          a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Inverse of `localMeters`.
+function offset(origin: LatLng, east: number, north: number): LatLng {
+  const radians = Math.PI / 180;
+  return {
+    latitude: origin.latitude + north / earthRadius / radians,
+    longitude:
+      origin.longitude + east / (earthRadius * Math.cos(origin.latitude * radians)) / radians,
+  };
+}
@@ -0,0 +1,65 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { panelShading } from './panelShading';
+import type { GeoTiff, SolarPanel } from './solar';
+
+const bounds = { north: 1, south: 0, east: 2, west: 0 };
+
+// Two pixels: the sun reaches the west one every day at noon, and the east
+// one only on the first 10 days of each month. Other hours are at night.
+function month(days: number): GeoTiff {
+  const allDays = 2 ** days - 1;
+  const rasters = [...Array(24).keys()].map((hour) =>
+    hour == 12 ? Uint32Array.of(allDays, 0b1111111111) : new Uint32Array(2),
+  );
+  return { width: 2, height: 1, rasters, bounds };
+}
+
+function panel(longitude: number): SolarPanel {
+  return {
+    center: { latitude: 0.5, longitude },
+    orientation: 'LANDSCAPE',
+    segmentIndex: 0,
+    yearlyEnergyDcKwh: 0,
+  };
+}
+
+describe('panelShading', () => {
+  const year = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31].map(month);
+
+  it('counts the hours of sun on each panel', () => {
+    const [west, east] = panelShading([panel(0.5), panel(1.5)], year);
+    expect(west.sunHoursPerMonth[1]).toBe(28);
+    expect(west.sunHoursPerYear).toBe(365);
+    expect(west.daylightHoursPerYear).toBe(365);
+    expect(west.shadedPercent).toBe(0);
+    expect(east.sunHoursPerYear).toBe(120);
+    expect(east.shadedPercent).toBeCloseTo(100 * (1 - 120 / 365));
+  });
+
+  it('ignores invalid pixels and panels outside the files', () => {
+    const invalid = year.map((file) => ({
+      ...file,
+      rasters: file.rasters.map(() => Uint32Array.of(2 ** 32 - 9999, 2 ** 32 - 9999)),
+    }));
+    const [valid] = panelShading([panel(0.5)], invalid);
+    expect(valid.sunHoursPerYear).toBe(0);
+    expect(valid.shadedPercent).toBe(0);
+    expect(panelShading([panel(5)], year)[0].sunHoursPerYear).toBe(0);
+  });
+});
@@ -0,0 +1,93 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { pixelAt } from './pixelInspector';
+import type { GeoTiff, SolarPanel } from './solar';
+
+// Days of each month in the hourly shade, which has no leap day.
+const monthDays = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+export interface PanelShading {
+  // Index of the panel in the panels analysed, like the ones of a `PanelLayout`.
+  panelIndex: number;
+  // Hours with the sun on the panel, from January.
+  sunHoursPerMonth: number[];
+  sunHoursPerYear: number;
+  // Hours with the sun up, seen from anywhere around the building.
+  daylightHoursPerYear: number;
+  // Share of the daylight hours in the shade, from 0 to 100.
+  shadedPercent: number;
+}
+
+/**
+ * Counts the hours of sun on each panel from the hourly shade of a year.
+ *
+ * Each panel is sampled at its center. The sun is up at an hour of a day when
+ * any pixel around the building sees it, so the shade of a panel only counts
+ * the hours it could have had sun.
+ *
+ * @param  {SolarPanel[]} panels  Panels of the building.
+ * @param  {GeoTiff[]} hourlyShade  Hourly shade files, from January to December.
+ * @return {PanelShading[]}  Sun and shade of each panel, in the order of the panels.
+ */
+export function panelShading(panels: SolarPanel[], hourlyShade: GeoTiff[]): PanelShading[] {
+  const daylight = hourlyShade.map((month, i) =>
+    month.rasters.map((hour) => daylightDays(hour) & dayBits(monthDays[i])),
+  );
+  const daylightHoursPerYear = daylight.flat().reduce((total, days) => total + countBits(days), 0);
+
+  return panels.map((panel, panelIndex) => {
+    const sunHoursPerMonth = hourlyShade.map((month, i) => {
+      const pixel = pixelAt(month, panel.center.latitude, panel.center.longitude);
+      if (!pixel) {
+        return 0;
+      }
+      const index = pixel.y * month.width + pixel.x;
+      return month.rasters.reduce((total, hour, h) => {
+        const days = hour[index];
+        // Invalid pixels have bit 31 set, no day can have it.
+        return days < 2 ** 31 ? total + countBits(days & daylight[i][h]) : total;
+      }, 0);
+    });
+    const sunHoursPerYear = sunHoursPerMonth.reduce((total, hours) => total + hours, 0);
+    const shadedPercent =
+      daylightHoursPerYear > 0 ? 100 * (1 - sunHoursPerYear / daylightHoursPerYear) : 0;
+    return { panelIndex, sunHoursPerMonth, sunHoursPerYear, daylightHoursPerYear, shadedPercent };
+  });
+}
+
+// Days of an hour with the sun on any valid pixel.
+function daylightDays(hour: ArrayLike<number>): number {
+  let days = 0;
+  for (let i = 0; i < hour.length; i++) {
+    if (hour[i] < 2 ** 31) {
+      days |= hour[i];
+    }
+  }
+  return days;
+}
+
+function dayBits(days: number): number {
+  return 2 ** days - 1;
+}
+
+function countBits(x: number): number {
+  let count = 0;
+  for (let bits = x >>> 0; bits; bits >>>= 1) {
+    count += bits & 1;
+  }
+  return count;
+}
@@ -0,0 +1,77 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { inspectPixel, pixelAt } from './pixelInspector';
+import type { GeoTiff } from './solar';
+
+const bounds = { north: 46, south: 45, east: 10, west: 9 };
+
+// 2x2 mask with the roof on the left column.
+const mask: GeoTiff = { width: 2, height: 2, rasters: [Uint32Array.of(1, 0, 1, 0)], bounds };
+
+describe('pixelAt', () => {
+  it('maps lat/lon to rows and columns', () => {
+    expect(pixelAt(mask, 45.9, 9.1)).toEqual({ x: 0, y: 0 });
+    expect(pixelAt(mask, 45.1, 9.9)).toEqual({ x: 1, y: 1 });
+    expect(pixelAt(mask, 46.1, 9.5)).toBeUndefined();
+  });
+});
+
+describe('inspectPixel', () => {
+  const rasters: Record<string, GeoTiff> = {
+    mask: mask,
+    // The DSM has twice the resolution of the mask.
+    dsm: {
+      width: 4,
+      height: 4,
+      rasters: [Float32Array.from({ length: 16 }, (_, i) => 100 + i)],
+      bounds,
+    },
+    annualFlux: { ...mask, rasters: [Float32Array.of(1200, -9999, 1100, 900)] },
+    hourlyShade3: {
+      ...mask,
+      rasters: [...Array(24).keys()].map((hour) =>
+        // Sun on the 2nd day of the month at noon, and invalid values at 1pm.
+        Uint32Array.from({ length: 4 }, () =>
+          hour == 12 ? 0b10 : hour == 13 ? 2 ** 32 - 9999 : 0,
+        ),
+      ),
+    },
+  };
+
+  it('reads the values of every decoded layer', () => {
+    const at = (lat: number, lng: number, day: number, hour: number) =>
+      inspectPixel((file) => rasters[file], lat, lng, 3, day, hour);
+    expect(at(45.9, 9.1, 2, 12)).toEqual({
+      x: 0,
+      y: 0,
+      roof: true,
+      dsm: 100,
+      annualFlux: 1200,
+      monthlyFlux: undefined,
+      sun: true,
+    });
+    expect(at(45.9, 9.9, 1, 12)).toMatchObject({
+      roof: false,
+      dsm: 103,
+      annualFlux: undefined,
+      sun: false,
+    });
+    expect(at(45.9, 9.9, 1, 13)?.sun).toBeUndefined();
+    expect(at(44, 9.5, 1, 12)).toBeUndefined();
+  });
+});
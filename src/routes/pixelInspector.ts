@@ -0,0 +1,102 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { GeoTiff } from './solar';
+
+// Raw values of the data layers under a point of the map.
+export interface PixelValues {
+  // Pixel of the mask, the other layers can have a different size.
+  x: number;
+  y: number;
+  roof?: boolean;
+  // Meters above sea level.
+  dsm?: number;
+  // kWh/kW/year.
+  annualFlux?: number;
+  // kWh/kW/month, for the selected month.
+  monthlyFlux?: number;
+  // Sunlight at the selected month, day and hour.
+  sun?: boolean;
+}
+
+/**
+ * Finds the raster pixel under a lat/lon point.
+ *
+ * The bounds are reprojected from the GeoTIFF, so they are treated as a
+ * lat/lon grid, which is close enough at the size of a building.
+ *
+ * @param  {GeoTiff} geoTiff  Raster with its lat/lon bounds.
+ * @param  {number}  lat      Latitude of the point.
+ * @param  {number}  lng      Longitude of the point.
+ * @return {{x, y} | undefined}  Column and row, undefined outside the raster.
+ */
+export function pixelAt(
+  geoTiff: GeoTiff,
+  lat: number,
+  lng: number,
+): { x: number; y: number } | undefined {
+  const { north, south, east, west } = geoTiff.bounds;
+  const x = Math.floor(((lng - west) / (east - west)) * geoTiff.width);
+  const y = Math.floor(((north - lat) / (north - south)) * geoTiff.height);
+  if (x < 0 || x >= geoTiff.width || y < 0 || y >= geoTiff.height) {
+    return undefined;
+  }
+  return { x, y };
+}
+
+/**
+ * Reads the values of every decoded data layer under a point.
+ *
+ * Layers not downloaded yet are left out, as well as invalid values (-9999).
+ *
+ * @param  {(file: string) => GeoTiff | undefined} rasters  Decoded rasters by data layer file.
+ * @param  {number} lat    Latitude of the point.
+ * @param  {number} lng    Longitude of the point.
+ * @param  {number} month  Selected month, 0 for January.
+ * @param  {number} day    Selected day of the month, from 1.
+ * @param  {number} hour   Selected hour of the day, from 0.
+ * @return {PixelValues | undefined}  Values under the point, undefined outside the mask.
+ */
+export function inspectPixel(
+  rasters: (file: string) => GeoTiff | undefined,
+  lat: number,
+  lng: number,
+  month: number,
+  day: number,
+  hour: number,
+): PixelValues | undefined {
+  const mask = rasters('mask');
+  const pixel = mask && pixelAt(mask, lat, lng);
+  if (!mask || !pixel) {
+    return undefined;
+  }
+  const valueAt = (file: string, band = 0) => {
+    const geoTiff = rasters(file);
+    const at = geoTiff && pixelAt(geoTiff, lat, lng);
+    const value = at && geoTiff.rasters[band]?.[at.y * geoTiff.width + at.x];
+    return value !== undefined && value > -9999 ? value : undefined;
+  };
+  // Invalid hourly shade values have bit 31 set, which no day can have.
+  const shade = valueAt(`hourlyShade${month}`, hour);
+  return {
+    ...pixel,
+    roof: mask.rasters[0][pixel.y * mask.width + pixel.x] > 0,
+    dsm: valueAt('dsm'),
+    annualFlux: valueAt('annualFlux'),
+    monthlyFlux: valueAt('monthlyFlux', month),
+    sun: shade !== undefined && shade < 2 ** 31 ? (shade & (1 << (day - 1))) != 0 : undefined,
+  };
+}
@@ -0,0 +1,75 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { getLayer } from './layer';
+import { RasterStore } from './rasterStore';
+import type { DataLayersResponse, GeoTiff } from './solar';
+import type { SolarApiClient } from './solarClient';
+
+const geoTiff: GeoTiff = {
+  width: 2,
+  height: 2,
+  rasters: [new Float32Array(4)],
+  bounds: { north: 1, south: 0, east: 1, west: 0 },
+};
+
+describe('RasterStore', () => {
+  it('downloads each file once', async () => {
+    const rasters = new RasterStore();
+    const download = vi.fn(async () => geoTiff);
+    const onProgress = vi.fn();
+    await rasters.get('mask', download);
+    await rasters.get('mask', download, onProgress);
+    expect(download).toHaveBeenCalledTimes(1);
+    expect(rasters.loaded('mask')).toBe(geoTiff);
+    expect(onProgress).toHaveBeenCalledWith({ state: 'done', receivedBytes: 16, totalBytes: 16 });
+  });
+
+  it('tries failed downloads again', async () => {
+    const rasters = new RasterStore();
+    const download = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue(geoTiff);
+    await expect(rasters.get('dsm', download)).rejects.toThrow('offline');
+    await expect(rasters.get('dsm', download)).resolves.toBe(geoTiff);
+    expect(download).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares the mask between the layers of a building', async () => {
+    const rasters = new RasterStore();
+    const downloadGeoTIFF = vi.fn(async () => geoTiff);
+    const solarApi = { downloadGeoTIFF } as unknown as SolarApiClient;
+    // Each layer gets its own Data Layers response, with new signed URLs.
+    const urls = (id: number) =>
+      ({
+        maskUrl: `mask-${id}`,
+        dsmUrl: `dsm-${id}`,
+        annualFluxUrl: `annualFlux-${id}`,
+      }) as DataLayersResponse;
+
+    await getLayer('annualFlux', urls(1), solarApi, { rasters });
+    await getLayer('dsm', urls(2), solarApi, { rasters });
+    expect(downloadGeoTIFF.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      'mask-1',
+      'annualFlux-1',
+      'dsm-2',
+    ]);
+
+    rasters.release();
+    expect(rasters.loaded('mask')).toBeUndefined();
+    await getLayer('mask', urls(3), solarApi, { rasters });
+    expect(downloadGeoTIFF).toHaveBeenLastCalledWith('mask-3', expect.anything());
+  });
+});
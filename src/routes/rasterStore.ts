@@ -0,0 +1,98 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { DownloadProgress, GeoTiff } from './solar';
+
+/**
+ * Keeps the decoded rasters of a building in memory while its layers are shown.
+ *
+ * Each layer asks for its own Data Layers view, so the same file comes with a
+ * different signed URL for each layer. Rasters are memoized by data layer
+ * file instead, like `mask` or `hourlyShade3`, which only holds for a single
+ * building and pixel size: release the store when either of them changes.
+ */
+export class RasterStore {
+  private rasters = new Map<string, Promise<GeoTiff>>();
+  private decoded = new Map<string, GeoTiff>();
+
+  /**
+   * Gets a raster, downloading it only the first time.
+   *
+   * @param  {string} file  Data layer file, like `mask`.
+   * @param  {() => Promise<GeoTiff>} download  Downloads and decodes the file.
+   * @param  {(progress: DownloadProgress) => void} onProgress  Called once done
+   *                                                            for memoized files.
+   * @return {Promise<GeoTiff>}  Decoded raster.
+   */
+  get(
+    file: string,
+    download: () => Promise<GeoTiff>,
+    onProgress?: (progress: DownloadProgress) => void,
+  ): Promise<GeoTiff> {
+    const memoized = this.rasters.get(file);
+    if (memoized) {
+      return memoized.then((geoTiff) => {
+        const receivedBytes = rasterBytes(geoTiff);
+        onProgress?.({ state: 'done', receivedBytes, totalBytes: receivedBytes });
+        return geoTiff;
+      });
+    }
+
+    const raster = download();
+    this.rasters.set(file, raster);
+    raster.then(
+      (geoTiff) => {
+        if (this.rasters.get(file) == raster) {
+          this.decoded.set(file, geoTiff);
+        }
+      },
+      // Failed and aborted downloads are tried again by the next layer.
+      () => {
+        if (this.rasters.get(file) == raster) {
+          this.rasters.delete(file);
+        }
+      },
+    );
+    return raster;
+  }
+
+  // Files downloaded or being downloaded.
+  get files(): string[] {
+    return [...this.rasters.keys()];
+  }
+
+  /**
+   * Gets a raster only if it's already decoded, like for the pixel inspector.
+   *
+   * @param  {string} file  Data layer file, like `mask`.
+   * @return {GeoTiff | undefined}  Decoded raster.
+   */
+  loaded(file: string): GeoTiff | undefined {
+    return this.decoded.get(file);
+  }
+
+  /**
+   * Drops every raster, so they can be garbage collected once no layer uses them.
+   */
+  release() {
+    this.rasters.clear();
+    this.decoded.clear();
+  }
+}
+
+function rasterBytes(geoTiff: GeoTiff): number {
+  return geoTiff.rasters.reduce((total, raster) => total + raster.byteLength, 0);
+}
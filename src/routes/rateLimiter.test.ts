@@ -0,0 +1,148 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { get } from 'svelte/store';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiUsageCounter, RateLimiter, type SolarEndpoint } from './rateLimiter';
+
+const budget = { requestsPerSecond: 1, burst: 1 };
+const plenty = { requestsPerSecond: 100, burst: 100 };
+
+// Requests that only finish when the test says so.
+function pendingRequests() {
+  const started: string[] = [];
+  const finish = new Map<string, () => void>();
+  const request = (name: string) => () =>
+    new Promise<string>((resolve) => {
+      started.push(name);
+      finish.set(name, () => resolve(name));
+    });
+  return { started, finish: (name: string) => finish.get(name)?.(), request };
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the requests in flight under the concurrency limit', async () => {
+    const limiter = new RateLimiter({
+      concurrency: 2,
+      budgets: { buildingInsights: plenty, dataLayers: plenty, geoTiff: plenty },
+    });
+    const { started, finish, request } = pendingRequests();
+
+    const done = ['a', 'b', 'c'].map((name) => limiter.execute('geoTiff', request(name)));
+    expect(started).toEqual(['a', 'b']);
+
+    finish('a');
+    await expect(done[0]).resolves.toBe('a');
+    await vi.waitFor(() => expect(started).toEqual(['a', 'b', 'c']));
+  });
+
+  it('starts the requests of the user before prefetches', async () => {
+    const limiter = new RateLimiter({
+      concurrency: 1,
+      budgets: { buildingInsights: plenty, dataLayers: plenty, geoTiff: plenty },
+    });
+    const { started, finish, request } = pendingRequests();
+
+    const first = limiter.execute('geoTiff', request('first'));
+    limiter.execute('geoTiff', request('prefetch'), { priority: 'prefetch' });
+    limiter.execute('geoTiff', request('user'));
+
+    finish('first');
+    await first;
+    await vi.waitFor(() => expect(started).toEqual(['first', 'user']));
+  });
+
+  it('waits for a token of the endpoint', async () => {
+    const limiter = new RateLimiter({
+      budgets: { buildingInsights: budget, dataLayers: budget, geoTiff: plenty },
+    });
+    const { started, request } = pendingRequests();
+
+    limiter.execute('dataLayers', request('first'));
+    limiter.execute('dataLayers', request('second'));
+    limiter.execute('geoTiff', request('other endpoint'));
+    expect(started).toEqual(['first', 'other endpoint']);
+
+    vi.advanceTimersByTime(1000);
+    expect(started).toEqual(['first', 'other endpoint', 'second']);
+  });
+
+  it('drops aborted requests from the queue', async () => {
+    const limiter = new RateLimiter({
+      budgets: { buildingInsights: budget, dataLayers: budget, geoTiff: budget },
+    });
+    const { started, request } = pendingRequests();
+    const controller = new AbortController();
+
+    limiter.execute('buildingInsights', request('first'));
+    const queued = limiter.execute('buildingInsights', request('aborted'), {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    vi.advanceTimersByTime(1000);
+    expect(started).toEqual(['first']);
+  });
+});
+
+describe('ApiUsageCounter', () => {
+  class MemoryStorage {
+    items = new Map<string, string>();
+    getItem(key: string) {
+      return this.items.get(key) ?? null;
+    }
+    setItem(key: string, value: string) {
+      this.items.set(key, value);
+    }
+  }
+
+  const record = (counter: ApiUsageCounter, ...endpoints: SolarEndpoint[]) =>
+    endpoints.forEach((endpoint) => counter.record(endpoint));
+
+  it('adds up the calls of today across sessions', () => {
+    const storage = new MemoryStorage();
+    const now = () => new Date(2024, 5, 1, 10);
+    record(new ApiUsageCounter(storage, now), 'geoTiff', 'geoTiff', 'dataLayers');
+
+    const counter = new ApiUsageCounter(storage, now);
+    record(counter, 'geoTiff');
+
+    const usage = get(counter.usage);
+    expect(usage.geoTiff).toEqual({ session: 1, today: 3 });
+    expect(usage.dataLayers).toEqual({ session: 0, today: 1 });
+    expect(usage.buildingInsights).toEqual({ session: 0, today: 0 });
+  });
+
+  it('starts over when the day changes', () => {
+    let now = new Date(2024, 5, 1, 23);
+    const counter = new ApiUsageCounter(new MemoryStorage(), () => now);
+    record(counter, 'buildingInsights', 'buildingInsights');
+
+    now = new Date(2024, 5, 2, 1);
+    record(counter, 'buildingInsights');
+
+    expect(get(counter.usage).buildingInsights).toEqual({ session: 3, today: 1 });
+  });
+});
@@ -0,0 +1,255 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { writable, type Writable } from 'svelte/store';
+
+export type SolarEndpoint = 'buildingInsights' | 'dataLayers' | 'geoTiff';
+
+// Requests made by the user go before the ones made in the background.
+export type RequestPriority = 'user' | 'prefetch';
+
+export interface SolarRequestOptions {
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+}
+
+export interface TokenBucket {
+  // Tokens added back every second.
+  requestsPerSecond: number;
+  // Most tokens the bucket can hold, the number of requests that can start at once.
+  burst: number;
+}
+
+export interface RateLimiterOptions {
+  // Most requests in flight at the same time, across all the endpoints.
+  concurrency: number;
+  budgets: Record<SolarEndpoint, TokenBucket>;
+  now: () => number;
+}
+
+// The Solar API allows 600 requests per minute on each method by default.
+export const defaultRateLimiterOptions: RateLimiterOptions = {
+  concurrency: 4,
+  budgets: {
+    buildingInsights: { requestsPerSecond: 5, burst: 5 },
+    dataLayers: { requestsPerSecond: 5, burst: 5 },
+    // The twelve hourly shade files and the mask never wait for tokens, only
+    // for one of the `concurrency` requests in flight to finish.
+    geoTiff: { requestsPerSecond: 10, burst: 13 },
+  },
+  now: () => Date.now(),
+};
+
+interface QueuedRequest {
+  endpoint: SolarEndpoint;
+  priority: RequestPriority;
+  run: () => void;
+}
+
+/**
+ * Schedules the Solar API requests with a token bucket for each endpoint.
+ *
+ * Requests start as soon as their endpoint has a token left and there are
+ * fewer than `concurrency` requests in flight. User requests are started
+ * before prefetches, otherwise requests start in the order they came.
+ */
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private queue: QueuedRequest[] = [];
+  private active = 0;
+  private buckets = new Map<SolarEndpoint, { tokens: number; updatedAt: number }>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: Partial<RateLimiterOptions> = {}) {
+    this.options = { ...defaultRateLimiterOptions, ...options };
+  }
+
+  /**
+   * Runs an operation once its endpoint is allowed another request.
+   *
+   * @param  {SolarEndpoint} endpoint  Solar API endpoint called by the operation.
+   * @param  {() => Promise<T>} operation  Request to run.
+   * @param  {SolarRequestOptions} options  Priority, and signal to leave the queue.
+   * @return {Promise<T>}  Result of the operation.
+   */
+  execute<T>(
+    endpoint: SolarEndpoint,
+    operation: () => Promise<T>,
+    { signal, priority = 'user' }: SolarRequestOptions = {},
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const request: QueuedRequest = {
+        endpoint,
+        priority,
+        run: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          operation()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.schedule();
+            });
+        },
+      };
+
+      // Aborted requests leave the queue right away, so they don't hold up
+      // the requests behind them.
+      const onAbort = () => {
+        this.queue = this.queue.filter((queued) => queued != request);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(request);
+      this.schedule();
+    });
+  }
+
+  // Starts every request that is allowed to, then waits for the next token.
+  private schedule() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    while (this.active < this.options.concurrency) {
+      const request =
+        this.queue.find((queued) => queued.priority == 'user' && this.hasToken(queued.endpoint)) ??
+        this.queue.find((queued) => this.hasToken(queued.endpoint));
+      if (!request) {
+        break;
+      }
+      this.queue = this.queue.filter((queued) => queued != request);
+      this.bucket(request.endpoint).tokens -= 1;
+      request.run();
+    }
+
+    if (this.queue.length > 0 && this.active < this.options.concurrency) {
+      const waitMs = Math.min(...this.queue.map((queued) => this.waitForToken(queued.endpoint)));
+      this.timer = setTimeout(() => this.schedule(), waitMs);
+    }
+  }
+
+  private bucket(endpoint: SolarEndpoint) {
+    const { requestsPerSecond, burst } = this.options.budgets[endpoint];
+    const now = this.options.now();
+    const bucket = this.buckets.get(endpoint) ?? { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(
+      burst,
+      bucket.tokens + ((now - bucket.updatedAt) * requestsPerSecond) / 1000,
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(endpoint, bucket);
+    return bucket;
+  }
+
+  private hasToken(endpoint: SolarEndpoint) {
+    return this.bucket(endpoint).tokens >= 1;
+  }
+
+  private waitForToken(endpoint: SolarEndpoint) {
+    const { requestsPerSecond } = this.options.budgets[endpoint];
+    return Math.ceil(((1 - this.bucket(endpoint).tokens) * 1000) / requestsPerSecond);
+  }
+}
+
+export interface EndpointUsage {
+  session: number;
+  today: number;
+}
+
+export type SolarApiUsage = Record<SolarEndpoint, EndpointUsage>;
+
+// Only the counts of today are kept, with the day they were counted on.
+interface StoredUsage {
+  day: string;
+  counts: Record<SolarEndpoint, number>;
+}
+
+const usageStorageKey = 'solarApp_apiUsage';
+
+/**
+ * Counts the calls made to each Solar API endpoint, in this session and today.
+ *
+ * The counts of today are kept in local storage, so they add up across
+ * sessions until the day changes.
+ */
+export class ApiUsageCounter {
+  readonly usage: Writable<SolarApiUsage>;
+
+  constructor(
+    private storage: Pick<Storage, 'getItem' | 'setItem'> | undefined = globalThis.localStorage,
+    private now: () => Date = () => new Date(),
+  ) {
+    const today = this.loadToday();
+    this.usage = writable({
+      buildingInsights: { session: 0, today: today.counts.buildingInsights },
+      dataLayers: { session: 0, today: today.counts.dataLayers },
+      geoTiff: { session: 0, today: today.counts.geoTiff },
+    });
+  }
+
+  /**
+   * Counts a call to an endpoint.
+   *
+   * @param  {SolarEndpoint} endpoint  Solar API endpoint called.
+   */
+  record(endpoint: SolarEndpoint) {
+    const today = this.loadToday();
+    today.counts[endpoint] += 1;
+    try {
+      this.storage?.setItem(usageStorageKey, JSON.stringify(today));
+    } catch (error) {
+      console.warn('Failed to persist the Solar API usage:', error);
+    }
+    // The counts of today may have been reset, or raised by another tab.
+    this.usage.update((usage) => {
+      const updated = { ...usage };
+      for (const name of Object.keys(usage) as SolarEndpoint[]) {
+        updated[name] = {
+          session: usage[name].session + (name == endpoint ? 1 : 0),
+          today: today.counts[name],
+        };
+      }
+      return updated;
+    });
+  }
+
+  private loadToday(): StoredUsage {
+    const now = this.now();
+    const day = `${now.getFullYear()}-${now.getMonth() + 1}-${now.getDate()}`;
+    try {
+      const stored: StoredUsage | undefined = JSON.parse(
+        this.storage?.getItem(usageStorageKey) ?? 'null',
+      );
+      if (stored?.day == day) {
+        return stored;
+      }
+    } catch (error) {
+      console.warn('Failed to load the Solar API usage:', error);
+    }
+    return { day, counts: { buildingInsights: 0, dataLayers: 0, geoTiff: 0 } };
+  }
+}
+
+export const solarApiUsageCounter = new ApiUsageCounter();
+
+// Calls made to each Solar API endpoint, for the usage panel.
+export const solarApiUsage = solarApiUsageCounter.usage;
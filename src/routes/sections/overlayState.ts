@@ -1,7 +1,9 @@
 import { writable } from 'svelte/store';
+import { defaultPixelSizeMeters, type PixelSizeMeters } from '../solar';
 
 export interface OverlayState {
   layerId: string; // LayerId | 'none'
+  pixelSizeMeters: PixelSizeMeters;
   month: number;
   day: number;
   hour: number;
@@ -11,6 +13,7 @@ export interface OverlayState {
 
 export const overlayState = writable<OverlayState>({
   layerId: 'monthlyFlux',
+  pixelSizeMeters: defaultPixelSizeMeters,
   month: 0,
   day: 14,
   hour: 0,
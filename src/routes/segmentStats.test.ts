@@ -0,0 +1,75 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { segmentMask, segmentPixels, segmentRasterStats } from './segmentStats';
+import type { GeoTiff, RoofSegmentSizeAndSunshineStats } from './solar';
+
+// 4 x 1 pixels of about 1 meter at the equator.
+const meter = 1 / 111195;
+const bounds = { north: meter / 2, south: -meter / 2, east: 2 * meter, west: -2 * meter };
+
+function raster(values: number[]): GeoTiff {
+  return { width: 4, height: 1, rasters: [Float32Array.from(values)], bounds };
+}
+
+// Flat segments over the west and east halves, both reaching the middle pixels.
+function segment(west: number, east: number, height: number): RoofSegmentSizeAndSunshineStats {
+  return {
+    pitchDegrees: 0,
+    azimuthDegrees: 180,
+    center: { latitude: 0, longitude: ((west + east) / 2) * meter },
+    boundingBox: {
+      sw: { latitude: -meter, longitude: west * meter },
+      ne: { latitude: meter, longitude: east * meter },
+    },
+    planeHeightAtCenterMeters: height,
+  } as RoofSegmentSizeAndSunshineStats;
+}
+
+const segments = [segment(-2, 1, 10), segment(-1, 2, 5)];
+const mask = raster([1, 1, 1, 0]);
+
+describe('segmentStats', () => {
+  it('puts each roof pixel on the segment with the closest plane', () => {
+    const dsm = raster([10, 10, 5, 5]);
+    expect([...segmentPixels(mask, segments, dsm)]).toEqual([0, 0, 1, -1]);
+    // Without DSM the closest center wins.
+    expect([...segmentPixels(mask, segments)]).toEqual([0, 0, 1, -1]);
+  });
+
+  it('adds up the flux of each segment', () => {
+    const labels = Int32Array.of(0, 0, 1, -1);
+    const annualFlux = raster([900, 1250, 2500, 1000]);
+    const monthlyFlux: GeoTiff = {
+      ...annualFlux,
+      rasters: [...Array(12).keys()].map((m) => Float32Array.of(m, m + 2, -9999, 0)),
+    };
+    const [west, east] = segmentRasterStats(labels, mask, segments, annualFlux, monthlyFlux, 1000);
+    expect(west.pixels).toBe(2);
+    expect(west.areaMeters2).toBeCloseTo(2, 1);
+    expect(west.usableAreaMeters2).toBeCloseTo(1, 1);
+    expect(west.meanAnnualFlux).toBe(1075);
+    expect(west.histogram[9]).toBe(1);
+    expect(west.histogram[12]).toBe(1);
+    expect(west.monthlyFlux[3]).toBe(4);
+    // Values above the last bin go in it, months without data are 0.
+    expect(east.histogram[17]).toBe(1);
+    expect(east.monthlyFlux).toEqual(new Array(12).fill(0));
+
+    expect([...segmentMask(labels, mask, 1).rasters[0]]).toEqual([0, 0, 1, 0]);
+  });
+});
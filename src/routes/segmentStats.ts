@@ -0,0 +1,182 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { GeoTiff, RoofSegmentSizeAndSunshineStats } from './solar';
+import { localMeters } from './terrainMesh';
+import { pixelSize } from './terrain';
+
+// Bins of the flux histograms in kWh/kW/year, the last one has everything above.
+export const histogramBinSize = 100;
+export const histogramBins = 18;
+
+export interface SegmentRasterStats {
+  // Index of the segment in `roofSegmentStats`.
+  segmentIndex: number;
+  pixels: number;
+  // Areas along the slope of the roof, like `stats.areaMeters2`.
+  areaMeters2: number;
+  usableAreaMeters2: number;
+  meanAnnualFlux: number;
+  // Pixels in each bin of `histogramBinSize`, from 0.
+  histogram: number[];
+  // Average sunlight of each month in kWh/kW, from January.
+  monthlyFlux: number[];
+}
+
+/**
+ * Finds the roof segment of each roof pixel.
+ *
+ * A pixel can be in the bounding box of several segments, where they meet
+ * or overlap. It goes to the segment whose plane is closest to its height in
+ * the DSM, or without DSM to the closest segment center.
+ *
+ * @param  {GeoTiff} mask  Roof mask.
+ * @param  {RoofSegmentSizeAndSunshineStats[]} segments  Roof segments of the building.
+ * @param  {GeoTiff} dsm  Optional DSM with the same size as the mask.
+ * @return {Int32Array}  Segment index of each mask pixel, -1 for no segment.
+ */
+export function segmentPixels(
+  mask: GeoTiff,
+  segments: RoofSegmentSizeAndSunshineStats[],
+  dsm?: GeoTiff,
+): Int32Array {
+  const { width, height, bounds } = mask;
+  const radians = Math.PI / 180;
+  const labels = new Int32Array(width * height).fill(-1);
+  for (let y = 0; y < height; y++) {
+    const latitude = bounds.north - ((y + 0.5) * (bounds.north - bounds.south)) / height;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!mask.rasters[0][i]) {
+        continue;
+      }
+      const longitude = bounds.west + ((x + 0.5) * (bounds.east - bounds.west)) / width;
+      const elevation = dsm?.rasters[0][i];
+      let bestDistance = Infinity;
+      segments.forEach((segment, s) => {
+        const { sw, ne } = segment.boundingBox;
+        if (
+          latitude < sw.latitude ||
+          latitude > ne.latitude ||
+          longitude < sw.longitude ||
+          longitude > ne.longitude
+        ) {
+          return;
+        }
+        const offset = localMeters({ latitude, longitude }, segment.center);
+        let distance = Math.hypot(offset.east, offset.north);
+        if (elevation !== undefined && elevation > -9999) {
+          const azimuth = segment.azimuthDegrees * radians;
+          const downhill = offset.north * Math.cos(azimuth) + offset.east * Math.sin(azimuth);
+          const planeHeight =
+            segment.planeHeightAtCenterMeters - Math.tan(segment.pitchDegrees * radians) * downhill;
+          distance = Math.abs(elevation - planeHeight);
+        }
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          labels[i] = s;
+        }
+      });
+    }
+  }
+  return labels;
+}
+
+/**
+ * Adds up the flux of the pixels of each roof segment.
+ *
+ * The annual flux in kWh/kW/year is about the sunlight on the roof in
+ * kWh/m²/year, since panels are rated under 1 kW/m² of sunlight.
+ *
+ * @param  {Int32Array} labels  Segment of each mask pixel, from `segmentPixels`.
+ * @param  {GeoTiff} mask  Roof mask.
+ * @param  {RoofSegmentSizeAndSunshineStats[]} segments  Roof segments of the building.
+ * @param  {GeoTiff} annualFlux  Annual flux, it can have a different size than the mask.
+ * @param  {GeoTiff} monthlyFlux  Monthly flux, one band per month.
+ * @param  {number} threshold  Least annual sunlight of the usable area, in kWh/m².
+ * @return {SegmentRasterStats[]}  Statistics of each segment, in the order of the segments.
+ */
+export function segmentRasterStats(
+  labels: Int32Array,
+  mask: GeoTiff,
+  segments: RoofSegmentSizeAndSunshineStats[],
+  annualFlux: GeoTiff,
+  monthlyFlux: GeoTiff,
+  threshold: number,
+): SegmentRasterStats[] {
+  const size = pixelSize(mask);
+  const stats = segments.map((segment, segmentIndex) => ({
+    segmentIndex,
+    pixels: 0,
+    usablePixels: 0,
+    annualTotal: 0,
+    histogram: new Array<number>(histogramBins).fill(0),
+    monthlyTotal: new Array<number>(12).fill(0),
+    monthlyPixels: new Array<number>(12).fill(0),
+    // Pixels are measured flat on the ground, the roof is longer along its slope.
+    pixelArea: (size.x * size.y) / Math.cos((segment.pitchDegrees * Math.PI) / 180),
+  }));
+  const at = (data: GeoTiff, x: number, y: number) =>
+    Math.floor((y * data.height) / mask.height) * data.width +
+    Math.floor((x * data.width) / mask.width);
+
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      const label = labels[y * mask.width + x];
+      const annual = annualFlux.rasters[0][at(annualFlux, x, y)];
+      if (label < 0 || annual <= -9999) {
+        continue;
+      }
+      const segment = stats[label];
+      segment.pixels++;
+      segment.annualTotal += annual;
+      segment.usablePixels += annual >= threshold ? 1 : 0;
+      segment.histogram[Math.min(Math.floor(annual / histogramBinSize), histogramBins - 1)]++;
+      monthlyFlux.rasters.forEach((month, m) => {
+        const value = month[at(monthlyFlux, x, y)];
+        if (value > -9999) {
+          segment.monthlyTotal[m] += value;
+          segment.monthlyPixels[m]++;
+        }
+      });
+    }
+  }
+
+  return stats.map((segment) => ({
+    segmentIndex: segment.segmentIndex,
+    pixels: segment.pixels,
+    areaMeters2: segment.pixels * segment.pixelArea,
+    usableAreaMeters2: segment.usablePixels * segment.pixelArea,
+    meanAnnualFlux: segment.pixels > 0 ? segment.annualTotal / segment.pixels : 0,
+    histogram: segment.histogram,
+    monthlyFlux: segment.monthlyTotal.map((total, m) =>
+      segment.monthlyPixels[m] > 0 ? total / segment.monthlyPixels[m] : 0,
+    ),
+  }));
+}
+
+/**
+ * Picks the pixels of one segment, to show it on the map.
+ *
+ * @param  {Int32Array} labels  Segment of each mask pixel, from `segmentPixels`.
+ * @param  {GeoTiff} mask  Roof mask.
+ * @param  {number} segmentIndex  Segment to show.
+ * @return {GeoTiff}  Mask of the segment, 1 for its pixels.
+ */
+export function segmentMask(labels: Int32Array, mask: GeoTiff, segmentIndex: number): GeoTiff {
+  const pixels = Uint32Array.from(labels, (label) => (label == segmentIndex ? 1 : 0));
+  return { ...mask, rasters: [pixels] };
+}
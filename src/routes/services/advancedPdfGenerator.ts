@@ -1,6 +1,11 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import type { BuildingInsightsResponse, SolarPanelConfig } from '../solar';
+import {
+  imageryConfidence,
+  type BuildingInsightsResponse,
+  type ImageryConfidence,
+  type SolarPanelConfig,
+} from '../solar';
 import { showMoney, showNumber } from '../utils';
 
 // Enhanced color palette matching the reference PDF
@@ -20,6 +25,14 @@ const Colors = {
   lightBlue: [187, 222, 251] as [number, number, number],  // Light blue
 };
 
+// Badge di affidabilità, dal livello di immagini che ha trovato l'edificio
+const ConfidenceBadges: Record<ImageryConfidence, { label: string; color: [number, number, number] }> = {
+  high: { label: 'Affidabilità alta', color: Colors.success },
+  medium: { label: 'Affidabilità media', color: Colors.primary },
+  low: { label: 'Affidabilità bassa', color: Colors.secondary },
+  indicative: { label: 'Stima indicativa (copertura estesa)', color: Colors.warning },
+};
+
 export interface AdvancedPDFReportData {
   location: {
     name: string;
@@ -1714,8 +1727,9 @@ export class AdvancedPDFGenerator {
     this.doc.text(`Data di cattura satellitare: ${data.buildingInsights.imageryDate.day}/${data.buildingInsights.imageryDate.month}/${data.buildingInsights.imageryDate.year}`, this.margin, this.currentY + 30);
     this.doc.text(`Data di processamento: ${this.dynamicData.processingDate}`, this.margin, this.currentY + 45);
     this.doc.text(`Qualità dei dati: ${data.buildingInsights.imageryQuality || 'HIGH'}`, this.margin, this.currentY + 60);
+    this.addConfidenceBadge(data.buildingInsights, this.margin, this.currentY + 68);
     
-    this.currentY += 80;
+    this.currentY += 95;
     
     this.doc.text(`Tipo di abitazione: ${this.dynamicData.buildingType}`, this.margin, this.currentY);
     this.doc.text(`Superficie totale dell'edificio: ${data.buildingInsights.solarPotential.buildingStats.areaMeters2.toFixed(2)} m²`, this.margin, this.currentY + 15);
@@ -1724,6 +1738,23 @@ export class AdvancedPDFGenerator {
     this.addSimplePageFooter();
   }
   
+  private addConfidenceBadge(buildingInsights: BuildingInsightsResponse, x: number, y: number) {
+    const badge = ConfidenceBadges[imageryConfidence(buildingInsights)];
+    
+    this.doc.setFontSize(10);
+    this.doc.setFont('helvetica', 'bold');
+    const badgeWidth = this.doc.getTextWidth(badge.label) + 10;
+    this.doc.setFillColor(...badge.color);
+    this.doc.roundedRect(x, y, badgeWidth, 9, 4, 4, 'F');
+    this.doc.setTextColor(...Colors.white);
+    this.doc.text(badge.label, x + 5, y + 6);
+    
+    // Restore the text style of the page
+    this.doc.setFontSize(12);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setTextColor(...Colors.textDark);
+  }
+
   private addMapPlaceholder(mapHeight: number) {
     // Fallback to placeholder
     this.doc.setFillColor(240, 245, 250);
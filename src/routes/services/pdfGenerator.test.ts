@@ -54,7 +54,7 @@ describe('PDFGenerator', () => {
             yearlyEnergyDcKwh: 4000,
             roofSegmentSummaries: []
           }],
-          financialAnalyses: {}
+          financialAnalyses: []
         }
       },
       configId: 0,
@@ -1,6 +1,12 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import type { BuildingInsightsResponse, SolarPanelConfig } from '../solar';
+import {
+  imageryConfidence,
+  type BuildingInsightsResponse,
+  type ImageryConfidence,
+  type ImageryTier,
+  type SolarPanelConfig,
+} from '../solar';
 import { showMoney, showNumber } from '../utils';
 
 // Professional color palette based on your theme
@@ -19,6 +25,21 @@ const Colors = {
   warning: [255, 152, 0] as [number, number, number],      // Warning orange
 };
 
+// Confidence badge, from the imagery tier that found the building
+const ConfidenceBadges: Record<ImageryConfidence, { label: string; color: [number, number, number] }> = {
+  high: { label: 'High confidence', color: Colors.success },
+  medium: { label: 'Medium confidence', color: Colors.primaryLight },
+  low: { label: 'Low confidence', color: Colors.secondary },
+  indicative: { label: 'Indicative only', color: Colors.warning },
+};
+
+const ImageryTierLabels: Record<ImageryTier, string> = {
+  HIGH: 'High quality',
+  MEDIUM: 'Medium quality',
+  LOW: 'Low quality',
+  EXPANDED_COVERAGE: 'Expanded coverage',
+};
+
 export interface PDFReportData {
   location: {
     name: string;
@@ -233,6 +254,28 @@ export class PDFGenerator {
     this.addSubsectionTitle('Satellite Imagery Information');
     this.addInfoRow('Imagery Date', `${data.buildingInsights.imageryDate.month}/${data.buildingInsights.imageryDate.day}/${data.buildingInsights.imageryDate.year}`);
     this.addInfoRow('Imagery Quality', data.buildingInsights.imageryQuality || 'N/A');
+    const imageryTier = data.buildingInsights.imageryTier;
+    this.addInfoRow('Imagery Tier', imageryTier ? ImageryTierLabels[imageryTier] : 'N/A');
+    this.addConfidenceBadge(data.buildingInsights);
+  }
+
+  private addConfidenceBadge(buildingInsights: BuildingInsightsResponse) {
+    const badge = ConfidenceBadges[imageryConfidence(buildingInsights)];
+    
+    this.doc.setTextColor(...Colors.textMedium);
+    this.doc.setFontSize(10);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.text('Confidence:', this.margin + 5, this.currentY + 1);
+    
+    this.doc.setFontSize(9);
+    this.doc.setFont('helvetica', 'bold');
+    const badgeWidth = this.doc.getTextWidth(badge.label) + 8;
+    this.doc.setFillColor(...badge.color);
+    this.doc.roundedRect(this.margin + 85, this.currentY - 4, badgeWidth, 7, 3, 3, 'F');
+    this.doc.setTextColor(...Colors.white);
+    this.doc.text(badge.label, this.margin + 89, this.currentY + 1);
+    
+    this.currentY += 9;
   }
 
   private addBuildingInsightsSection(data: PDFReportData) {
@@ -14,7 +14,147 @@
  limitations under the License.
  */
 
-import { test } from 'vitest';
-import {} from './solar';
+import { afterEach, describe, expect, it, test, vi } from 'vitest';
+import {
+  downloadGeoTIFF,
+  downloadGeoTIFFFile,
+  getDataLayerUrls,
+  imageryConfidence,
+  parseGeoTIFF,
+  type BuildingInsightsResponse,
+  type GeoTiff,
+} from './solar';
+import { decodeGeoTIFF } from './geoTiffDecoder';
+
+vi.mock('./geoTiffDecoder', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./geoTiffDecoder')>()),
+  decodeGeoTIFF: vi.fn(),
+}));
 
 test('import works', () => {});
+
+describe('imageryConfidence', () => {
+  it('uses the imagery tier that found the building', () => {
+    const buildingInsights = { imageryQuality: 'LOW' } as BuildingInsightsResponse;
+    expect(imageryConfidence(buildingInsights)).toBe('low');
+    expect(imageryConfidence({ ...buildingInsights, imageryTier: 'LOW' })).toBe('low');
+    expect(imageryConfidence({ ...buildingInsights, imageryQuality: 'BASE' })).toBe('indicative');
+    expect(imageryConfidence({ ...buildingInsights, imageryTier: 'EXPANDED_COVERAGE' })).toBe(
+      'indicative',
+    );
+  });
+});
+
+describe('getDataLayerUrls', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('requests only the chosen view and pixel size', async () => {
+    const fetch = vi.fn(async () => new Response('{}'));
+    vi.stubGlobal('fetch', fetch);
+
+    const location = { latitude: 44.64712, longitude: 10.92519 };
+    await getDataLayerUrls(location, 20, '', '/dataLayers', {
+      view: 'IMAGERY_LAYERS',
+      pixelSizeMeters: 0.5,
+    });
+    await getDataLayerUrls(location, 20, '', '/dataLayers');
+
+    const [withView, withDefaults] = fetch.mock.calls.map(
+      (call: unknown[]) => new URL(String(call[0]), 'http://localhost').searchParams,
+    );
+    expect(withView.get('view')).toBe('IMAGERY_LAYERS');
+    expect(withView.get('pixel_size_meters')).toBe('0.5');
+    expect(withDefaults.has('view')).toBe(false);
+    expect(withDefaults.has('pixel_size_meters')).toBe(false);
+  });
+});
+
+describe('downloadGeoTIFF', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('drops aborted downloads from the queue', async () => {
+    // Requests only finish when they're aborted.
+    const fetch = vi.fn(
+      (_: string, { signal }: RequestInit) =>
+        new Promise<Response>((_, reject) =>
+          signal?.addEventListener('abort', () => reject(signal.reason)),
+        ),
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    // Four downloads fill the concurrency limit, the fifth one is queued.
+    const inFlight = new AbortController();
+    const queued = new AbortController();
+    const first = [1, 2, 3, 4].map((i) =>
+      downloadGeoTIFF(`/first-${i}.tif`, '', { signal: inFlight.signal }),
+    );
+    const second = downloadGeoTIFF('/second.tif', '', { signal: queued.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(4));
+
+    queued.abort();
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    inFlight.abort();
+    for (const download of first) {
+      await expect(download).rejects.toMatchObject({ name: 'AbortError' });
+    }
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('frees the slot of a request while it waits to retry', async () => {
+    // The first downloads fail like when offline, and wait at least a second to retry.
+    const fetch = vi.fn(async (url: string) => {
+      if (url.startsWith('/offline')) {
+        throw new TypeError('Failed to fetch');
+      }
+      return new Response('tiff');
+    });
+    vi.stubGlobal('fetch', fetch);
+
+    const retrying = new AbortController();
+    const offline = [1, 2, 3, 4].map((i) =>
+      downloadGeoTIFFFile(`/offline-${i}.tif`, '', { signal: retrying.signal }),
+    );
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(4));
+
+    const file = await downloadGeoTIFFFile('/user.tif', '');
+    expect(await file.text()).toBe('tiff');
+    expect(fetch).toHaveBeenCalledTimes(5);
+
+    retrying.abort();
+    for (const download of offline) {
+      await expect(download).rejects.toMatchObject({ name: 'AbortError' });
+    }
+  });
+});
+
+describe('parseGeoTIFF', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(decodeGeoTIFF).mockReset();
+  });
+
+  it('decodes on the main thread the files sent to a worker that fails to load', async () => {
+    // Like a worker blocked by the Content Security Policy.
+    class FailingWorker {
+      onerror: ((event: { message: string }) => void) | null = null;
+      postMessage() {
+        setTimeout(() => this.onerror?.({ message: 'blocked' }));
+      }
+      terminate() {}
+    }
+    vi.stubGlobal('Worker', FailingWorker);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const geoTiff = { width: 1, height: 1 } as GeoTiff;
+    vi.mocked(decodeGeoTIFF).mockResolvedValue(geoTiff);
+
+    const arrayBuffer = new ArrayBuffer(8);
+    await expect(parseGeoTIFF(arrayBuffer)).resolves.toBe(geoTiff);
+    expect(decodeGeoTIFF).toHaveBeenCalledWith(arrayBuffer);
+    await expect(parseGeoTIFF(new ArrayBuffer(8))).resolves.toBe(geoTiff);
+    expect(decodeGeoTIFF).toHaveBeenCalledTimes(2);
+  });
+});
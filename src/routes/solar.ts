@@ -24,9 +24,39 @@ export interface DataLayersResponse {
   annualFluxUrl: string;
   monthlyFluxUrl: string;
   hourlyShadeUrls: string[];
-  imageryQuality: 'HIGH' | 'MEDIUM' | 'LOW';
+  imageryQuality: ImageryQuality;
 }
 
+// Layers returned by a Data Layers request, each view includes the ones before it:
+//   DSM_LAYER: digital surface model only.
+//   IMAGERY_LAYERS: adds the aerial image and the roof mask.
+//   IMAGERY_AND_ANNUAL_FLUX_LAYERS: adds the annual flux.
+//   IMAGERY_AND_ALL_FLUX_LAYERS: adds the monthly flux.
+//   FULL_LAYERS: adds the hourly shade, the default.
+export type DataLayerView =
+  | 'DSM_LAYER'
+  | 'IMAGERY_LAYERS'
+  | 'IMAGERY_AND_ANNUAL_FLUX_LAYERS'
+  | 'IMAGERY_AND_ALL_FLUX_LAYERS'
+  | 'FULL_LAYERS';
+
+// Resolutions supported by the Solar API, in meters per pixel.
+export type PixelSizeMeters = 0.1 | 0.25 | 0.5 | 1;
+
+// Used by the Solar API when the request doesn't choose a pixel size.
+export const defaultPixelSizeMeters: PixelSizeMeters = 0.1;
+
+export interface DataLayersRequestOptions extends SolarRequestOptions {
+  view?: DataLayerView;
+  pixelSizeMeters?: PixelSizeMeters;
+}
+
+// BASE quality imagery is only returned with the EXPANDED_COVERAGE experiment.
+export type ImageryQuality = 'HIGH' | 'MEDIUM' | 'LOW' | 'BASE';
+
+// Quality asked in a Building Insights request, from the most to the least accurate.
+export type ImageryTier = 'HIGH' | 'MEDIUM' | 'LOW' | 'EXPANDED_COVERAGE';
+
 export interface Bounds {
   north: number;
   south: number;
@@ -46,7 +76,9 @@ export interface BuildingInsightsResponse {
   statisticalArea: string;
   regionCode: string;
   solarPotential: SolarPotential;
-  imageryQuality: 'HIGH' | 'MEDIUM' | 'LOW';
+  imageryQuality: ImageryQuality;
+  // Tier of the request that found the building, not part of the Solar API response.
+  imageryTier?: ImageryTier;
 }
 
 export interface SolarPotential {
@@ -63,7 +95,9 @@ export interface SolarPotential {
   roofSegmentStats: RoofSegmentSizeAndSunshineStats[];
   solarPanels: SolarPanel[];
   solarPanelConfigs: SolarPanelConfig[];
-  financialAnalyses: object;
+  // One analysis for each monthly bill bracket, only in the countries where
+  // the Solar API knows the local costs and incentives.
+  financialAnalyses?: FinancialAnalysis[];
 }
 
 export interface SizeAndSunshineStats {
@@ -102,6 +136,73 @@ export interface RoofSegmentSummary {
   segmentIndex: number;
 }
 
+export interface FinancialAnalysis {
+  monthlyBill: Money;
+  // The bill bracket the Solar API picks when the user's bill is unknown.
+  defaultBill?: boolean;
+  averageKwhPerMonth: number;
+  // Index into `solarPanelConfigs`, -1 when no configuration is worth it.
+  panelConfigIndex: number;
+  financialDetails?: FinancialDetails;
+  leasingSavings?: LeasingSavings;
+  cashPurchaseSavings?: CashPurchaseSavings;
+  financedPurchaseSavings?: FinancedPurchaseSavings;
+}
+
+export interface FinancialDetails {
+  initialAcKwhPerYear: number;
+  remainingLifetimeUtilityBill: Money;
+  federalIncentive: Money;
+  stateIncentive: Money;
+  utilityIncentive: Money;
+  lifetimeSrecTotal: Money;
+  costOfElectricityWithoutSolar: Money;
+  netMeteringAllowed: boolean;
+  solarPercentage?: number;
+  percentageExportedToGrid?: number;
+}
+
+export interface LeasingSavings {
+  leasesAllowed: boolean;
+  leasesSupported: boolean;
+  annualLeasingCost: Money;
+  savings: SavingsOverTime;
+}
+
+export interface CashPurchaseSavings {
+  outOfPocketCost: Money;
+  upfrontCost: Money;
+  rebateValue: Money;
+  // Missing when the installation never pays for itself.
+  paybackYears?: number;
+  savings: SavingsOverTime;
+}
+
+export interface FinancedPurchaseSavings {
+  annualLoanPayment: Money;
+  rebateValue: Money;
+  loanInterestRate: number;
+  savings: SavingsOverTime;
+}
+
+export interface SavingsOverTime {
+  savingsYear1: Money;
+  savingsYear20: Money;
+  presentValueOfSavingsYear20: Money;
+  savingsLifetime: Money;
+  presentValueOfSavingsLifetime: Money;
+  financiallyViable: boolean;
+}
+
+// https://developers.google.com/maps/documentation/solar/reference/rest/v1/buildingInsights/findClosest#money
+export interface Money {
+  currencyCode: string;
+  // Whole units, an int64 encoded as a string.
+  units?: string;
+  // Billionths of a unit, with the same sign as the units.
+  nanos?: number;
+}
+
 export interface LatLng {
   latitude: number;
   longitude: number;
@@ -128,7 +229,19 @@ export interface RequestError {
 // [END solar_api_data_types]
 
 // https://developers.google.com/maps/documentation/solar/reference/rest/v1/dataLayers
-export type LayerId = 'mask' | 'dsm' | 'rgb' | 'annualFlux' | 'monthlyFlux' | 'hourlyShade';
+// The slope, aspect and hillshade are computed by the app from the DSM, the
+// flux comparison from the monthly and annual flux.
+export type LayerId =
+  | 'mask'
+  | 'dsm'
+  | 'rgb'
+  | 'annualFlux'
+  | 'monthlyFlux'
+  | 'hourlyShade'
+  | 'slope'
+  | 'aspect'
+  | 'hillshade'
+  | 'fluxComparison';
 
 // [START solar_api_building_insights]
 /**
@@ -136,34 +249,49 @@ export type LayerId = 'mask' | 'dsm' | 'rgb' | 'annualFlux' | 'monthlyFlux' | 'h
  *   https://developers.google.com/maps/documentation/solar/building-insights
  *
  * @param  {LatLng} location      Point of interest as latitude longitude.
- * @param  {string} apiKey        Google Cloud API key.
+ * @param  {string} apiKey        Google Cloud API key, empty when calling our proxy.
+ * @param  {string} endpoint      Building Insights endpoint, the Solar API or our proxy.
+ * @param  {ImageryTier} imageryTier  Lowest imagery quality to accept.
+ * @param  {SolarRequestOptions} options  Priority, and signal to cancel the request.
  * @return {Promise<DataLayersResponse>}  Building Insights response.
  */
 export async function findClosestBuilding(
-  location: google.maps.LatLng,
+  location: LatLng,
   apiKey: string,
+  endpoint: string = 'https://solar.googleapis.com/v1/buildingInsights:findClosest',
+  imageryTier: ImageryTier = 'MEDIUM',
+  options: SolarRequestOptions = {},
 ): Promise<BuildingInsightsResponse> {
-  const args = {
-    'location.latitude': location.lat().toFixed(5),
-    'location.longitude': location.lng().toFixed(5),
-    requiredQuality: "MEDIUM",
-    // experiments: "EXPANDED_COVERAGE"
+  const requiredQuality = imageryTierQuality(imageryTier);
+  const args: Record<string, string> = {
+    'location.latitude': location.latitude.toFixed(5),
+    'location.longitude': location.longitude.toFixed(5),
+    requiredQuality,
   };
-  const params = new URLSearchParams({ ...args, key: apiKey });
+  if (imageryTier == 'EXPANDED_COVERAGE') {
+    args.experiments = 'EXPANDED_COVERAGE';
+  }
+  const params = new URLSearchParams(apiKey ? { ...args, key: apiKey } : args);
   
-  return rateLimiter.execute(() => 
-    withRetry(async () => {
-      // https://developers.google.com/maps/documentation/solar/reference/rest/v1/buildingInsights/findClosest
-      const response = await fetch(`https://solar.googleapis.com/v1/buildingInsights:findClosest?${params}`);
-      const content = await response.json();
+  return withRetry(
+    () =>
+      rateLimiter.execute(
+        'buildingInsights',
+        async () => {
+          // https://developers.google.com/maps/documentation/solar/reference/rest/v1/buildingInsights/findClosest
+          const response = await fetchSolarApi('buildingInsights', `${endpoint}?${params}`, options.signal);
+          const content = await response.json();
       
-      if (response.status !== 200) {
-        console.error('findClosestBuilding\n', content);
-        throw content;
-      }
+          if (response.status !== 200) {
+            console.error('findClosestBuilding\n', content);
+            throw createSolarApiError(content, requiredQuality, response.headers.get('retry-after'));
+          }
       
-      return content;
-    })
+          return content;
+        },
+        options,
+      ),
+    options.signal,
   );
 }
 // [END solar_api_building_insights]
@@ -175,15 +303,20 @@ export async function findClosestBuilding(
  *
  * @param  {LatLng} location      Point of interest as latitude longitude.
  * @param  {number} radiusMeters  Radius of the data layer size in meters.
- * @param  {string} apiKey        Google Cloud API key.
+ * @param  {string} apiKey        Google Cloud API key, empty when calling our proxy.
+ * @param  {string} endpoint      Data Layers endpoint, the Solar API or our proxy.
+ * @param  {DataLayersRequestOptions} options  Layers and resolution to request, priority,
+ *                                            and signal to cancel the request.
  * @return {Promise<DataLayersResponse>}  Data Layers response.
  */
 export async function getDataLayerUrls(
   location: LatLng,
   radiusMeters: number,
   apiKey: string,
+  endpoint: string = 'https://solar.googleapis.com/v1/dataLayers:get',
+  options: DataLayersRequestOptions = {},
 ): Promise<DataLayersResponse> {
-  const args = {
+  const args: Record<string, string> = {
     'location.latitude': location.latitude.toFixed(5),
     'location.longitude': location.longitude.toFixed(5),
     radius_meters: radiusMeters.toString(),
@@ -194,21 +327,34 @@ export async function getDataLayerUrls(
     // the Solar API will return us the highest quality available.
     required_quality: 'LOW',
   };
-  const params = new URLSearchParams({ ...args, key: apiKey });
+  // Smaller views and coarser pixels mean less files and bytes to download.
+  if (options.view) {
+    args.view = options.view;
+  }
+  if (options.pixelSizeMeters) {
+    args.pixel_size_meters = options.pixelSizeMeters.toString();
+  }
+  const params = new URLSearchParams(apiKey ? { ...args, key: apiKey } : args);
   
-  return rateLimiter.execute(() =>
-    withRetry(async () => {
-      // https://developers.google.com/maps/documentation/solar/reference/rest/v1/dataLayers/get
-      const response = await fetch(`https://solar.googleapis.com/v1/dataLayers:get?${params}`);
-      const content = await response.json();
+  return withRetry(
+    () =>
+      rateLimiter.execute(
+        'dataLayers',
+        async () => {
+          // https://developers.google.com/maps/documentation/solar/reference/rest/v1/dataLayers/get
+          const response = await fetchSolarApi('dataLayers', `${endpoint}?${params}`, options.signal);
+          const content = await response.json();
       
-      if (response.status !== 200) {
-        console.error('getDataLayerUrls\n', content);
-        throw content;
-      }
+          if (response.status !== 200) {
+            console.error('getDataLayerUrls\n', content);
+            throw createSolarApiError(content, 'LOW', response.headers.get('retry-after'));
+          }
       
-      return content;
-    })
+          return content;
+        },
+        options,
+      ),
+    options.signal,
   );
 }
 // [END solar_api_data_layers]
@@ -217,75 +363,273 @@ export async function getDataLayerUrls(
 export interface GeoTiff {
   width: number;
   height: number;
-  rasters: Array<number>[];
+  rasters: Raster[];
   bounds: Bounds;
 }
+
+// Pixel values of a band, row by row.
+export type Raster = Float32Array | Uint32Array;
 // [END solar_api_data_layer_custom_type]
 
 // [START solar_api_download_geotiff]
 // npm install geotiff geotiff-geokeys-to-proj4 proj4
 
-import * as geotiff from 'geotiff';
-import * as geokeysToProj4 from 'geotiff-geokeys-to-proj4';
-import proj4 from 'proj4';
+import { decodeGeoTIFF, type DecodeRequest, type DecodeResponse } from './geoTiffDecoder';
+import {
+  RateLimiter,
+  solarApiUsageCounter,
+  type SolarEndpoint,
+  type SolarRequestOptions,
+} from './rateLimiter';
+import { createSolarApiError, SolarNetworkError, SolarQuotaError } from './solarErrors';
+
+export type DownloadState = 'downloading' | 'decoding' | 'done';
+
+export interface DownloadProgress {
+  state: DownloadState;
+  receivedBytes: number;
+  // From the Content-Length header, if the server sends it.
+  totalBytes?: number;
+  // Time it took to decode the file, once done.
+  decodeMs?: number;
+}
+
+export interface GeoTiffRequestOptions extends SolarRequestOptions {
+  // Called as the bytes arrive, when decoding starts, and once decoded.
+  onProgress?: (progress: DownloadProgress) => void;
+}
 
 /**
  * Downloads the pixel values for a Data Layer URL from the Solar API.
  *
  * @param  {string} url        URL from the Data Layers response.
- * @param  {string} apiKey     Google Cloud API key.
+ * @param  {string} apiKey     Google Cloud API key, empty when calling our proxy.
+ * @param  {GeoTiffRequestOptions} options  Priority, progress callback, and signal
+ *                                          to cancel the download.
  * @return {Promise<GeoTiff>}  Pixel values with shape and lat/lon bounds.
  */
-export async function downloadGeoTIFF(url: string, apiKey: string): Promise<GeoTiff> {
-
-  return rateLimiter.execute(() =>
-    withRetry(async () => {
-      // Include your Google Cloud API key in the Data Layers URL.
-      const solarUrl = url.includes('solar.googleapis.com') ? url + `&key=${apiKey}` : url;
-      const response = await fetch(solarUrl);
-      
-      if (response.status !== 200) {
-        const error = await response.json();
-        console.error(`downloadGeoTIFF failed: ${url}\n`, error);
-        throw error;
-      }
+export async function downloadGeoTIFF(
+  url: string,
+  apiKey: string,
+  options: GeoTiffRequestOptions = {},
+): Promise<GeoTiff> {
+
+  return withRetry(
+    () =>
+      rateLimiter.execute(
+        'geoTiff',
+        async () => {
+          const response = await fetchGeoTIFF(url, apiKey, options.signal);
+
+          // Get the GeoTIFF rasters, which are the pixel values for each band.
+          return readGeoTIFF(response, options.onProgress);
+        },
+        options,
+      ),
+    options.signal,
+  );
+}
 
-      // Get the GeoTIFF rasters, which are the pixel values for each band.
-      const arrayBuffer = await response.arrayBuffer();
-      const tiff = await geotiff.fromArrayBuffer(arrayBuffer);
-      const image = await tiff.getImage();
-      const rasters = await image.readRasters();
-
-      // Reproject the bounding box into lat/lon coordinates.
-      const geoKeys = image.getGeoKeys();
-      const projObj = geokeysToProj4.toProj4(geoKeys);
-      const projection = proj4(projObj.proj4, 'WGS84');
-      const box = image.getBoundingBox();
-      const sw = projection.forward({
-        x: box[0] * projObj.coordinatesConversionParameters.x,
-        y: box[1] * projObj.coordinatesConversionParameters.y,
-      });
-      const ne = projection.forward({
-        x: box[2] * projObj.coordinatesConversionParameters.x,
-        y: box[3] * projObj.coordinatesConversionParameters.y,
-      });
-
-      return {
-        width: image.getWidth(),
-        height: image.getHeight(),
-        rasters: [...Array(rasters.length).keys()].map((i) => Array.from(rasters[i] as any)),
-        bounds: {
-          north: ne.y,
-          south: sw.y,
-          east: ne.x,
-          west: sw.x,
+/**
+ * Downloads the original GeoTIFF file for a Data Layer URL, like to export it.
+ *
+ * @param  {string} url        URL from the Data Layers response.
+ * @param  {string} apiKey     Google Cloud API key, empty when calling our proxy.
+ * @param  {SolarRequestOptions} options  Priority, and signal to cancel the download.
+ * @return {Promise<Blob>}  Contents of the GeoTIFF file.
+ */
+export async function downloadGeoTIFFFile(
+  url: string,
+  apiKey: string,
+  options: SolarRequestOptions = {},
+): Promise<Blob> {
+  return withRetry(
+    () =>
+      rateLimiter.execute(
+        'geoTiff',
+        async () => {
+          const response = await fetchGeoTIFF(url, apiKey, options.signal);
+          return response.blob();
         },
-      };
-    })
+        options,
+      ),
+    options.signal,
   );
 }
+
+// Rejects with a `SolarApiError` unless the file is found.
+async function fetchGeoTIFF(url: string, apiKey: string, signal?: AbortSignal): Promise<Response> {
+  // Include your Google Cloud API key in the Data Layers URL.
+  const solarUrl = apiKey && url.includes('solar.googleapis.com') ? url + `&key=${apiKey}` : url;
+  const response = await fetchSolarApi('geoTiff', solarUrl, signal);
+
+  if (response.status !== 200) {
+    const error = await response.json();
+    console.error(`downloadGeoTIFF failed: ${url}\n`, error);
+    throw createSolarApiError(error, undefined, response.headers.get('retry-after'));
+  }
+  return response;
+}
+
+/**
+ * Reads and decodes a GeoTIFF file, reporting the progress as it goes.
+ *
+ * @param  {Response} response  Successful response with the GeoTIFF file.
+ * @param  {(progress: DownloadProgress) => void} onProgress  Progress callback.
+ * @return {Promise<GeoTiff>}  Pixel values with shape and lat/lon bounds.
+ */
+export async function readGeoTIFF(
+  response: Response,
+  onProgress?: (progress: DownloadProgress) => void,
+): Promise<GeoTiff> {
+  const totalBytes = Number(response.headers.get('content-length')) || undefined;
+  let receivedBytes = 0;
+  let arrayBuffer: ArrayBuffer;
+  const reader = response.body?.getReader();
+  if (reader) {
+    const chunks: Uint8Array[] = [];
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      chunks.push(chunk.value);
+      receivedBytes += chunk.value.byteLength;
+      onProgress?.({ state: 'downloading', receivedBytes, totalBytes });
+    }
+    const bytes = new Uint8Array(receivedBytes);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    arrayBuffer = bytes.buffer;
+  } else {
+    arrayBuffer = await response.arrayBuffer();
+    receivedBytes = arrayBuffer.byteLength;
+  }
+
+  onProgress?.({ state: 'decoding', receivedBytes, totalBytes });
+  const decodeStart = performance.now();
+  const geoTiff = await parseGeoTIFF(arrayBuffer);
+  const decodeMs = performance.now() - decodeStart;
+  onProgress?.({ state: 'done', receivedBytes, totalBytes, decodeMs });
+  return geoTiff;
+}
+
+/**
+ * Decodes the pixel values and lat/lon bounds of a GeoTIFF file.
+ *
+ * Decoding runs in a Web Worker where available, so large files like the
+ * hourly shade don't freeze the page. The array buffer is transferred to the
+ * worker, so it can't be used afterwards.
+ *
+ * @param  {ArrayBuffer} arrayBuffer  Contents of the GeoTIFF file.
+ * @return {Promise<GeoTiff>}  Pixel values with shape and lat/lon bounds.
+ */
+export function parseGeoTIFF(arrayBuffer: ArrayBuffer): Promise<GeoTiff> {
+  if (typeof Worker === 'undefined' || geoTiffWorker.failed) {
+    return decodeGeoTIFF(arrayBuffer);
+  }
+  return geoTiffWorker.decode(arrayBuffer);
+}
+
+// Sends the files to decode to the GeoTIFF worker, created on first use.
+class GeoTiffWorkerClient {
+  failed = false;
+  private worker: Worker | undefined;
+  // Set once the worker has answered, which means it loaded.
+  private loaded = false;
+  private nextId = 0;
+  private pending = new Map<
+    number,
+    {
+      arrayBuffer?: ArrayBuffer;
+      resolve: (geoTiff: GeoTiff) => void;
+      reject: (error: Error) => void;
+    }
+  >();
+
+  decode(arrayBuffer: ArrayBuffer): Promise<GeoTiff> {
+    const worker = this.start();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      // Until the worker has loaded, send it a copy and keep the file to
+      // decode it here if the worker can't load.
+      const kept = this.loaded ? undefined : arrayBuffer;
+      const sent = kept ? arrayBuffer.slice(0) : arrayBuffer;
+      this.pending.set(id, { arrayBuffer: kept, resolve, reject });
+      const request: DecodeRequest = { id, arrayBuffer: sent };
+      worker.postMessage(request, [sent]);
+    });
+  }
+
+  private start(): Worker {
+    if (this.worker) {
+      return this.worker;
+    }
+    this.worker = new Worker(new URL('./geoTiffWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = ({ data }: MessageEvent<DecodeResponse>) => {
+      this.loaded = true;
+      const request = this.pending.get(data.id);
+      this.pending.delete(data.id);
+      if ('error' in data) {
+        request?.reject(new Error(data.error));
+      } else {
+        request?.resolve(data.geoTiff);
+      }
+    };
+    // The worker failed, decode on the main thread from now on, including the
+    // files it was decoding if we still have them.
+    this.worker.onerror = (event) => {
+      console.error('GeoTIFF worker failed, decoding on the main thread\n', event.message);
+      this.failed = true;
+      this.worker?.terminate();
+      for (const request of this.pending.values()) {
+        if (request.arrayBuffer) {
+          decodeGeoTIFF(request.arrayBuffer).then(request.resolve, request.reject);
+        } else {
+          request.reject(new Error(`GeoTIFF worker failed: ${event.message}`));
+        }
+      }
+      this.pending.clear();
+    };
+    return this.worker;
+  }
+}
+
+const geoTiffWorker = new GeoTiffWorkerClient();
 // [END solar_api_download_geotiff]
 
+/**
+ * Lowest imagery quality accepted by a Building Insights request tier.
+ *
+ * @param  {ImageryTier} imageryTier  Tier of the request.
+ * @return {ImageryQuality}  Required quality of the request.
+ */
+export function imageryTierQuality(imageryTier: ImageryTier): ImageryQuality {
+  return imageryTier == 'EXPANDED_COVERAGE' ? 'BASE' : imageryTier;
+}
+
+export type ImageryConfidence = 'high' | 'medium' | 'low' | 'indicative';
+
+/**
+ * How much to trust the estimates of a building, by the imagery that found it.
+ *
+ * Expanded coverage imagery is only good enough for indicative estimates.
+ *
+ * @param  {BuildingInsightsResponse} buildingInsights  Building Insights response.
+ * @return {ImageryConfidence}  Confidence of the estimates.
+ */
+export function imageryConfidence(buildingInsights: BuildingInsightsResponse): ImageryConfidence {
+  const tier = buildingInsights.imageryTier ?? buildingInsights.imageryQuality;
+  switch (tier) {
+    case 'HIGH':
+      return 'high';
+    case 'MEDIUM':
+      return 'medium';
+    case 'LOW':
+      return 'low';
+  }
+  return 'indicative';
+}
+
 export function showLatLng(point: LatLng) {
   return `(${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)})`;
 }
@@ -294,9 +638,48 @@ export function showDate(date: Date) {
   return `${date.month}/${date.day}/${date.year}`;
 }
 
-// Utility function for exponential backoff retry
+// fetch only throws when the request could not be sent, like when offline,
+// or when it's aborted.
+async function fetchSolarApi(
+  endpoint: SolarEndpoint,
+  url: string,
+  signal?: AbortSignal,
+): Promise<Response> {
+  solarApiUsageCounter.record(endpoint);
+  try {
+    return await fetch(url, { signal });
+  } catch (e) {
+    if (signal?.aborted) {
+      throw e;
+    }
+    throw new SolarNetworkError({ code: 0, message: String(e), status: 'UNAVAILABLE' });
+  }
+}
+
+// Waits before retrying, or rejects as soon as the signal is aborted.
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Utility function for exponential backoff retry, stops waiting when aborted.
+// Each attempt takes its own slot of the rate limiter, so the waits hold none.
 async function withRetry<T>(
   operation: () => Promise<T>,
+  signal?: AbortSignal,
   maxRetries: number = 3,
   baseDelay: number = 1000
 ): Promise<T> {
@@ -305,64 +688,19 @@ async function withRetry<T>(
       return await operation();
     } catch (error: any) {
       // If this is the last attempt or it's not a retryable error, throw
-      if (attempt === maxRetries || (error.error?.code !== 429 && error.error?.code !== 503)) {
+      if (attempt === maxRetries || !(error instanceof SolarQuotaError || error instanceof SolarNetworkError)) {
         throw error;
       }
       
       // Calculate delay with exponential backoff and jitter
       const delay = baseDelay * Math.pow(2, attempt) + Math.random() * 1000;
       
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await sleep(delay, signal);
     }
   }
   
   throw new Error('Max retries exceeded');
 }
 
-// Rate limiting utility
-class RateLimiter {
-  private queue: Array<() => void> = [];
-  private processing = false;
-  private lastRequestTime = 0;
-  private minInterval = 100; // Minimum 100ms between requests
-
-  async execute<T>(operation: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          const now = Date.now();
-          const timeSinceLastRequest = now - this.lastRequestTime;
-          
-          if (timeSinceLastRequest < this.minInterval) {
-            await new Promise(res => setTimeout(res, this.minInterval - timeSinceLastRequest));
-          }
-          
-          this.lastRequestTime = Date.now();
-          const result = await operation();
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        }
-      });
-      
-      this.processQueue();
-    });
-  }
-
-  private async processQueue() {
-    if (this.processing || this.queue.length === 0) {
-      return;
-    }
-    
-    this.processing = true;
-    
-    while (this.queue.length > 0) {
-      const operation = this.queue.shift()!;
-      await operation();
-    }
-    
-    this.processing = false;
-  }
-}
-
+// Shared by all the Solar API requests of the app.
 const rateLimiter = new RateLimiter();
@@ -0,0 +1,199 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { get } from 'svelte/store';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  BuildingInsightsResponse,
+  DataLayersResponse,
+  GeoTiff,
+  ImageryQuality,
+  LatLng,
+} from './solar';
+import { CachedSolarApiClient, MemorySolarCacheStore, solarCacheStats } from './solarCache';
+import { SolarLowQualityError } from './solarErrors';
+import type { SolarApiClient } from './solarClient';
+
+const location = { latitude: 44.64712, longitude: 10.92519 };
+
+// Counts the calls and returns new signed URLs on each Data Layers request.
+class FakeSolarApiClient implements SolarApiClient {
+  calls = { findClosestBuilding: 0, getDataLayerUrls: 0, downloadGeoTIFF: [] as string[] };
+  imageryQuality: ImageryQuality = 'HIGH';
+
+  async findClosestBuilding(location: LatLng) {
+    this.calls.findClosestBuilding++;
+    return {
+      name: 'buildings/test',
+      center: location,
+      imageryQuality: this.imageryQuality,
+    } as BuildingInsightsResponse;
+  }
+
+  async getDataLayerUrls() {
+    const id = ++this.calls.getDataLayerUrls;
+    return {
+      dsmUrl: `https://solar.googleapis.com/v1/geoTiff:get?id=dsm-${id}`,
+      rgbUrl: `https://solar.googleapis.com/v1/geoTiff:get?id=rgb-${id}`,
+      maskUrl: `https://solar.googleapis.com/v1/geoTiff:get?id=mask-${id}`,
+      annualFluxUrl: '',
+      monthlyFluxUrl: '',
+      hourlyShadeUrls: [],
+      imageryQuality: 'HIGH',
+    } as unknown as DataLayersResponse;
+  }
+
+  async downloadGeoTIFF(url: string): Promise<GeoTiff> {
+    this.calls.downloadGeoTIFF.push(url);
+    return {
+      width: 20,
+      height: 10,
+      rasters: [new Float32Array(200).fill(1)],
+      bounds: { north: 1, south: 0, east: 1, west: 0 },
+    };
+  }
+
+  async downloadGeoTIFFFile(url: string): Promise<Blob> {
+    this.calls.downloadGeoTIFF.push(url);
+    return new Blob([url]);
+  }
+}
+
+describe('CachedSolarApiClient', () => {
+  let now: number;
+  let api: FakeSolarApiClient;
+  let store: MemorySolarCacheStore;
+
+  function createClient(maxBytes = 1024 * 1024) {
+    return new CachedSolarApiClient(api, store, { now: () => now, maxBytes });
+  }
+
+  beforeEach(() => {
+    now = 0;
+    api = new FakeSolarApiClient();
+    store = new MemorySolarCacheStore();
+    solarCacheStats.set({ hits: 0, misses: 0, entries: 0, bytes: 0 });
+  });
+
+  it('caches building insights by rounded location', async () => {
+    const client = createClient();
+    await client.findClosestBuilding(location);
+    await client.findClosestBuilding({ latitude: 44.647121, longitude: 10.925191 });
+    expect(api.calls.findClosestBuilding).toBe(1);
+    expect(get(solarCacheStats)).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+  });
+
+  it('fails without a request when the cached imagery is below the required quality', async () => {
+    api.imageryQuality = 'MEDIUM';
+    const client = createClient();
+    await client.findClosestBuilding(location, 'LOW');
+    await expect(client.findClosestBuilding(location, 'EXPANDED_COVERAGE')).resolves.toBeDefined();
+    await expect(client.findClosestBuilding(location, 'HIGH')).rejects.toBeInstanceOf(
+      SolarLowQualityError,
+    );
+    expect(api.calls.findClosestBuilding).toBe(1);
+  });
+
+  it('serves GeoTIFF files across sessions with new signed URLs', async () => {
+    const firstSession = createClient();
+    const urls = await firstSession.getDataLayerUrls(location, 20);
+    await firstSession.downloadGeoTIFF(urls.maskUrl);
+
+    // A new session reads the same store, after the URLs have expired.
+    now += 2 * 60 * 60 * 1000;
+    const secondSession = createClient();
+    const expiredUrls = await secondSession.getDataLayerUrls(location, 20);
+    await secondSession.downloadGeoTIFF(expiredUrls.maskUrl);
+    expect(api.calls.getDataLayerUrls).toBe(1);
+    expect(api.calls.downloadGeoTIFF).toHaveLength(1);
+  });
+
+  it('requests new URLs to download a missing file after they expire', async () => {
+    const client = createClient();
+    const urls = await client.getDataLayerUrls(location, 20);
+    now += 2 * 60 * 60 * 1000;
+    await client.downloadGeoTIFF(urls.dsmUrl);
+    expect(api.calls.getDataLayerUrls).toBe(2);
+    expect(api.calls.downloadGeoTIFF).toEqual([
+      'https://solar.googleapis.com/v1/geoTiff:get?id=dsm-2',
+    ]);
+  });
+
+  it('downloads the original files for export with new URLs once expired', async () => {
+    const client = createClient();
+    const urls = await client.getDataLayerUrls(location, 20);
+    await client.downloadGeoTIFFFile(urls.dsmUrl);
+    now += 2 * 60 * 60 * 1000;
+    await client.downloadGeoTIFFFile(urls.dsmUrl);
+    expect(api.calls.downloadGeoTIFF).toEqual([
+      'https://solar.googleapis.com/v1/geoTiff:get?id=dsm-1',
+      'https://solar.googleapis.com/v1/geoTiff:get?id=dsm-2',
+    ]);
+  });
+
+  it('requests new URLs once for all the files and the URLs already handed out', async () => {
+    const client = createClient();
+    const urls = await client.getDataLayerUrls(location, 20);
+    now += 2 * 60 * 60 * 1000;
+    await Promise.all([urls.dsmUrl, urls.rgbUrl].map((url) => client.downloadGeoTIFF(url)));
+    await client.downloadGeoTIFFFile(urls.maskUrl);
+    expect(api.calls.getDataLayerUrls).toBe(2);
+    expect(api.calls.downloadGeoTIFF).toEqual([
+      'https://solar.googleapis.com/v1/geoTiff:get?id=dsm-2',
+      'https://solar.googleapis.com/v1/geoTiff:get?id=rgb-2',
+      'https://solar.googleapis.com/v1/geoTiff:get?id=mask-2',
+    ]);
+  });
+
+  it('shares the files of every view with the same pixel size', async () => {
+    const client = createClient();
+    const imagery = await client.getDataLayerUrls(location, 20, { view: 'IMAGERY_LAYERS' });
+    await client.downloadGeoTIFF(imagery.maskUrl);
+    const full = await client.getDataLayerUrls(location, 20, { view: 'FULL_LAYERS' });
+    await client.downloadGeoTIFF(full.maskUrl);
+    const coarse = await client.getDataLayerUrls(location, 20, { pixelSizeMeters: 0.5 });
+    await client.downloadGeoTIFF(coarse.maskUrl);
+    expect(api.calls.getDataLayerUrls).toBe(3);
+    expect(api.calls.downloadGeoTIFF).toEqual([
+      'https://solar.googleapis.com/v1/geoTiff:get?id=mask-1',
+      'https://solar.googleapis.com/v1/geoTiff:get?id=mask-3',
+    ]);
+  });
+
+  it('evicts the least recently used entries', async () => {
+    const client = createClient(2000);
+    const urls = await client.getDataLayerUrls(location, 20);
+    await client.downloadGeoTIFF(urls.maskUrl);
+    now++;
+    await client.downloadGeoTIFF(urls.dsmUrl);
+    now++;
+    await client.downloadGeoTIFF(urls.rgbUrl);
+    const keys = (await store.list()).map((entry) => entry.key);
+    expect(keys).not.toContain('geoTiff:44.64712,10.92519:20:0.1:mask');
+    expect(keys).toContain('geoTiff:44.64712,10.92519:20:0.1:rgb');
+    expect(get(solarCacheStats).bytes).toBeLessThanOrEqual(2000);
+  });
+
+  it('counts the entries left by earlier sessions', async () => {
+    const firstSession = createClient();
+    await firstSession.findClosestBuilding(location);
+    solarCacheStats.set({ hits: 0, misses: 0, entries: 0, bytes: 0 });
+
+    createClient();
+    await vi.waitFor(() => expect(get(solarCacheStats).entries).toBe(1));
+    expect(get(solarCacheStats).bytes).toBeGreaterThan(0);
+  });
+});
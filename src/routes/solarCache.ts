@@ -0,0 +1,541 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { writable } from 'svelte/store';
+import {
+  defaultPixelSizeMeters,
+  imageryTierQuality,
+  type BuildingInsightsResponse,
+  type DataLayersRequestOptions,
+  type DataLayersResponse,
+  type DataLayerView,
+  type GeoTiff,
+  type GeoTiffRequestOptions,
+  type ImageryQuality,
+  type ImageryTier,
+  type LatLng,
+  type PixelSizeMeters,
+} from './solar';
+import { createSolarApiError } from './solarErrors';
+import type { SolarApiClient } from './solarClient';
+import type { SolarRequestOptions } from './rateLimiter';
+
+const hour = 60 * 60 * 1000;
+const day = 24 * hour;
+
+export interface SolarCacheOptions {
+  // Total size of the cached values, least recently used entries are evicted first.
+  maxBytes: number;
+  buildingInsightsTtlMs: number;
+  geoTiffTtlMs: number;
+  // The Data Layers URLs are signed and expire one hour after the request.
+  dataLayerUrlsTtlMs: number;
+  now: () => number;
+}
+
+export const defaultSolarCacheOptions: SolarCacheOptions = {
+  maxBytes: 200 * 1024 * 1024,
+  buildingInsightsTtlMs: 30 * day,
+  geoTiffTtlMs: 30 * day,
+  dataLayerUrlsTtlMs: 55 * 60 * 1000,
+  now: () => Date.now(),
+};
+
+export interface SolarCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  bytes: number;
+}
+
+// Cache statistics for the current session.
+export const solarCacheStats = writable<SolarCacheStats>({
+  hits: 0,
+  misses: 0,
+  entries: 0,
+  bytes: 0,
+});
+
+export interface CacheEntryMeta {
+  key: string;
+  size: number;
+  expiresAt: number;
+  accessedAt: number;
+}
+
+/**
+ * Key-value storage for the cached Solar API responses.
+ */
+export interface SolarCacheStore {
+  get<T>(key: string): Promise<{ meta: CacheEntryMeta; value: T } | undefined>;
+  put<T>(meta: CacheEntryMeta, value: T): Promise<void>;
+  touch(key: string, accessedAt: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<CacheEntryMeta[]>;
+}
+
+/**
+ * Keeps the cache in memory, used where IndexedDB is not available.
+ */
+export class MemorySolarCacheStore implements SolarCacheStore {
+  private entries = new Map<string, { meta: CacheEntryMeta; value: unknown }>();
+
+  async get<T>(key: string) {
+    const entry = this.entries.get(key);
+    return entry && { meta: { ...entry.meta }, value: entry.value as T };
+  }
+
+  async put<T>(meta: CacheEntryMeta, value: T) {
+    this.entries.set(meta.key, { meta: { ...meta }, value });
+  }
+
+  async touch(key: string, accessedAt: number) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.meta.accessedAt = accessedAt;
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async list() {
+    return [...this.entries.values()].map((entry) => ({ ...entry.meta }));
+  }
+}
+
+/**
+ * Persists the cache in IndexedDB, so it survives page reloads.
+ *
+ * The metadata is kept in its own object store, so listing the entries for
+ * eviction does not load the cached rasters.
+ */
+export class IndexedDbSolarCacheStore implements SolarCacheStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor(name: string = 'solar-api-cache') {
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore('meta', { keyPath: 'key' });
+        request.result.createObjectStore('values');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async get<T>(key: string) {
+    const tx = (await this.db).transaction(['meta', 'values'], 'readonly');
+    const [meta, value] = await Promise.all([
+      idbRequest<CacheEntryMeta | undefined>(tx.objectStore('meta').get(key)),
+      idbRequest<T | undefined>(tx.objectStore('values').get(key)),
+    ]);
+    return meta && value !== undefined ? { meta, value } : undefined;
+  }
+
+  async put<T>(meta: CacheEntryMeta, value: T) {
+    const tx = (await this.db).transaction(['meta', 'values'], 'readwrite');
+    tx.objectStore('meta').put(meta);
+    tx.objectStore('values').put(value, meta.key);
+    await idbTransaction(tx);
+  }
+
+  async touch(key: string, accessedAt: number) {
+    const tx = (await this.db).transaction('meta', 'readwrite');
+    const meta = await idbRequest<CacheEntryMeta | undefined>(tx.objectStore('meta').get(key));
+    if (meta) {
+      tx.objectStore('meta').put({ ...meta, accessedAt });
+    }
+    await idbTransaction(tx);
+  }
+
+  async delete(key: string) {
+    const tx = (await this.db).transaction(['meta', 'values'], 'readwrite');
+    tx.objectStore('meta').delete(key);
+    tx.objectStore('values').delete(key);
+    await idbTransaction(tx);
+  }
+
+  async list() {
+    const tx = (await this.db).transaction('meta', 'readonly');
+    return idbRequest<CacheEntryMeta[]>(tx.objectStore('meta').getAll());
+  }
+}
+
+function idbRequest<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function idbTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Creates the persistent cache store if the browser supports it.
+ *
+ * @return {SolarCacheStore}  IndexedDB store, or an in-memory store as a fallback.
+ */
+export function createSolarCacheStore(): SolarCacheStore {
+  if (typeof indexedDB === 'undefined') {
+    return new MemorySolarCacheStore();
+  }
+  return new IndexedDbSolarCacheStore();
+}
+
+interface CachedDataLayers {
+  response: DataLayersResponse;
+  urlsExpireAt: number;
+}
+
+// Data Layers request with the API defaults filled in.
+interface DataLayersRequest {
+  location: LatLng;
+  radiusMeters: number;
+  view: DataLayerView;
+  pixelSizeMeters: PixelSizeMeters;
+}
+
+interface DataLayerSource {
+  request: DataLayersRequest;
+  // Key of the cached Data Layers response.
+  key: string;
+  file: string;
+  // Latest signed URL of the file, from this response or a newer one.
+  url: string;
+  urlsExpireAt: number;
+}
+
+/**
+ * Caches the Solar API responses of another client.
+ *
+ * Responses are keyed by the rounded location sent to the Solar API, the
+ * radius, the view and pixel size, and the data layer file, so revisiting a
+ * building is served from the cache even though each Data Layers response has
+ * new signed URLs.
+ * If the signed URLs of a cached Data Layers response have expired, they are
+ * only requested again when a GeoTIFF file is not cached, once for all the
+ * files of the response.
+ */
+export class CachedSolarApiClient implements SolarApiClient {
+  private options: SolarCacheOptions;
+  private sources = new Map<string, DataLayerSource>();
+  // Pending requests for new signed URLs, by Data Layers key.
+  private refreshes = new Map<string, Promise<DataLayersResponse>>();
+
+  constructor(
+    private client: SolarApiClient,
+    private store: SolarCacheStore = createSolarCacheStore(),
+    options: Partial<SolarCacheOptions> = {},
+  ) {
+    this.options = { ...defaultSolarCacheOptions, ...options };
+    this.loadStats();
+  }
+
+  async findClosestBuilding(
+    location: LatLng,
+    imageryTier: ImageryTier = 'MEDIUM',
+    options?: SolarRequestOptions,
+  ): Promise<BuildingInsightsResponse> {
+    const key = `buildingInsights:${showKeyLocation(location)}`;
+    const cached = await this.read<BuildingInsightsResponse>(key);
+    // The Solar API returns the highest quality available, so a cached response
+    // below the required quality means the request would fail.
+    const requiredQuality = imageryTierQuality(imageryTier);
+    if (cached && !meetsQuality(cached.imageryQuality, requiredQuality)) {
+      throw createSolarApiError(
+        {
+          error: {
+            code: 404,
+            message: `Only ${cached.imageryQuality} quality imagery is available.`,
+            status: 'NOT_FOUND',
+          },
+        },
+        requiredQuality,
+      );
+    }
+    if (cached) {
+      return cached;
+    }
+    const response = await this.client.findClosestBuilding(location, imageryTier, options);
+    await this.write(key, response, this.options.buildingInsightsTtlMs);
+    return response;
+  }
+
+  async getDataLayerUrls(
+    location: LatLng,
+    radiusMeters: number,
+    options: DataLayersRequestOptions = {},
+  ): Promise<DataLayersResponse> {
+    const request = dataLayersRequest(location, radiusMeters, options);
+    const cached = await this.read<CachedDataLayers>(dataLayersKey(request));
+    if (cached) {
+      this.addSources(request, cached);
+      return cached.response;
+    }
+    return this.fetchDataLayerUrls(request, options);
+  }
+
+  async downloadGeoTIFF(url: string, options?: GeoTiffRequestOptions): Promise<GeoTiff> {
+    const source = this.sources.get(url);
+    if (!source) {
+      return this.client.downloadGeoTIFF(url, options);
+    }
+
+    // Every view has the same files, only the pixel size changes them.
+    const { location, radiusMeters, pixelSizeMeters } = source.request;
+    const key = `geoTiff:${showKeyLocation(location)}:${radiusMeters}:${pixelSizeMeters}:${source.file}`;
+    const cached = await this.read<GeoTiff>(key);
+    if (cached) {
+      const receivedBytes = estimateSize(cached.rasters);
+      options?.onProgress?.({ state: 'done', receivedBytes, totalBytes: receivedBytes });
+      return cached;
+    }
+
+    // The next files need the URLs too, keep them as recently used as the files.
+    await this.store.touch(source.key, this.options.now()).catch((error) => {
+      console.warn('Failed to read the Solar API cache:', error);
+    });
+    const validUrl = await this.validUrl(source, options);
+    const geoTiff = await this.client.downloadGeoTIFF(validUrl, options);
+    await this.write(key, geoTiff, this.options.geoTiffTtlMs);
+    return geoTiff;
+  }
+
+  // Files are only cached decoded, so they are always downloaded again.
+  async downloadGeoTIFFFile(url: string, options?: SolarRequestOptions): Promise<Blob> {
+    const source = this.sources.get(url);
+    const validUrl = source ? await this.validUrl(source, options) : url;
+    return this.client.downloadGeoTIFFFile(validUrl, options);
+  }
+
+  // The signed URL can only be downloaded until it expires.
+  private async validUrl(source: DataLayerSource, options?: SolarRequestOptions): Promise<string> {
+    if (source.urlsExpireAt <= this.options.now()) {
+      const key = source.key;
+      let refresh = this.refreshes.get(key);
+      if (!refresh) {
+        // Shared by the downloads of every file, so none of them can cancel it.
+        refresh = this.fetchDataLayerUrls(source.request, { priority: options?.priority });
+        this.refreshes.set(key, refresh);
+        refresh.then(
+          () => this.refreshes.delete(key),
+          () => this.refreshes.delete(key),
+        );
+      }
+      await refresh;
+    }
+    // Refreshing updates the source with the new URL.
+    return source.url;
+  }
+
+  private async fetchDataLayerUrls(
+    request: DataLayersRequest,
+    options?: SolarRequestOptions,
+  ): Promise<DataLayersResponse> {
+    const { location, radiusMeters, view, pixelSizeMeters } = request;
+    const response = await this.client.getDataLayerUrls(location, radiusMeters, {
+      ...options,
+      view,
+      pixelSizeMeters,
+    });
+    const cached: CachedDataLayers = {
+      response,
+      urlsExpireAt: this.options.now() + this.options.dataLayerUrlsTtlMs,
+    };
+    this.addSources(request, cached);
+    await this.write(dataLayersKey(request), cached, this.options.geoTiffTtlMs);
+    return response;
+  }
+
+  private addSources(request: DataLayersRequest, cached: CachedDataLayers) {
+    const key = dataLayersKey(request);
+    const urls = new Map(dataLayerFiles(cached.response));
+    // The callers keep the URLs of the older responses, which now point to the
+    // newer ones.
+    for (const source of this.sources.values()) {
+      const url = urls.get(source.file);
+      if (source.key == key && url && source.urlsExpireAt < cached.urlsExpireAt) {
+        source.url = url;
+        source.urlsExpireAt = cached.urlsExpireAt;
+      }
+    }
+    for (const [file, url] of urls) {
+      const source = this.sources.get(url);
+      if (!source || source.urlsExpireAt < cached.urlsExpireAt) {
+        this.sources.set(url, { request, key, file, url, urlsExpireAt: cached.urlsExpireAt });
+      }
+    }
+  }
+
+  private async read<T>(key: string): Promise<T | undefined> {
+    let entry: { meta: CacheEntryMeta; value: T } | undefined;
+    try {
+      entry = await this.store.get<T>(key);
+      if (entry && entry.meta.expiresAt <= this.options.now()) {
+        await this.store.delete(key);
+        entry = undefined;
+      }
+      if (entry) {
+        await this.store.touch(key, this.options.now());
+      }
+    } catch (error) {
+      console.warn('Failed to read the Solar API cache:', error);
+      entry = undefined;
+    }
+    solarCacheStats.update((stats) => ({
+      ...stats,
+      hits: stats.hits + (entry ? 1 : 0),
+      misses: stats.misses + (entry ? 0 : 1),
+    }));
+    return entry?.value;
+  }
+
+  private async write<T>(key: string, value: T, ttlMs: number) {
+    const now = this.options.now();
+    const size = estimateSize(value);
+    if (size > this.options.maxBytes) {
+      return;
+    }
+    try {
+      await this.store.put({ key, size, expiresAt: now + ttlMs, accessedAt: now }, value);
+      await this.evict();
+    } catch (error) {
+      console.warn('Failed to write the Solar API cache:', error);
+    }
+  }
+
+  private async evict() {
+    const now = this.options.now();
+    const entries = await this.store.list();
+    let bytes = entries.reduce((total, entry) => total + entry.size, 0);
+    // Expired entries go first, then the least recently used.
+    const candidates = entries.sort(
+      (x, y) =>
+        Number(y.expiresAt <= now) - Number(x.expiresAt <= now) || x.accessedAt - y.accessedAt,
+    );
+    let count = entries.length;
+    const evicted = new Set<string>();
+    for (const entry of candidates) {
+      if (bytes <= this.options.maxBytes && entry.expiresAt > now) {
+        break;
+      }
+      await this.store.delete(entry.key);
+      evicted.add(entry.key);
+      bytes -= entry.size;
+      count--;
+    }
+    // The URLs of an evicted Data Layers response go with it.
+    for (const [url, source] of this.sources) {
+      if (evicted.has(source.key)) {
+        this.sources.delete(url);
+      }
+    }
+    solarCacheStats.update((stats) => ({ ...stats, entries: count, bytes: bytes }));
+  }
+
+  // Counts what earlier sessions left in the store.
+  private async loadStats() {
+    try {
+      const entries = await this.store.list();
+      const bytes = entries.reduce((total, entry) => total + entry.size, 0);
+      solarCacheStats.update((stats) => ({ ...stats, entries: entries.length, bytes }));
+    } catch (error) {
+      console.warn('Failed to read the Solar API cache:', error);
+    }
+  }
+}
+
+function dataLayersRequest(
+  location: LatLng,
+  radiusMeters: number,
+  options: DataLayersRequestOptions,
+): DataLayersRequest {
+  return {
+    location,
+    radiusMeters,
+    view: options.view ?? 'FULL_LAYERS',
+    pixelSizeMeters: options.pixelSizeMeters ?? defaultPixelSizeMeters,
+  };
+}
+
+function dataLayersKey({ location, radiusMeters, view, pixelSizeMeters }: DataLayersRequest) {
+  return `dataLayers:${showKeyLocation(location)}:${radiusMeters}:${view}:${pixelSizeMeters}`;
+}
+
+function showKeyLocation(location: LatLng) {
+  return `${location.latitude.toFixed(5)},${location.longitude.toFixed(5)}`;
+}
+
+function meetsQuality(quality: ImageryQuality, requiredQuality: ImageryQuality) {
+  const qualities: ImageryQuality[] = ['BASE', 'LOW', 'MEDIUM', 'HIGH'];
+  return qualities.indexOf(quality) >= qualities.indexOf(requiredQuality);
+}
+
+function dataLayerFiles(response: DataLayersResponse): [string, string][] {
+  const files: [string, string][] = [
+    ['dsm', response.dsmUrl],
+    ['rgb', response.rgbUrl],
+    ['mask', response.maskUrl],
+    ['annualFlux', response.annualFluxUrl],
+    ['monthlyFlux', response.monthlyFluxUrl],
+    ...(response.hourlyShadeUrls ?? []).map((url, month): [string, string] => [
+      `hourlyShade${month}`,
+      url,
+    ]),
+  ];
+  // Some layers are not available for every imagery quality.
+  return files.filter(([, url]) => url);
+}
+
+/**
+ * Estimates the number of bytes a value takes in memory.
+ *
+ * @param  {unknown} value  Value to measure.
+ * @return {number}         Approximate size in bytes.
+ */
+export function estimateSize(value: unknown): number {
+  if (typeof value === 'number') {
+    return 8;
+  }
+  if (typeof value === 'string') {
+    return value.length * 2;
+  }
+  if (typeof value === 'boolean') {
+    return 4;
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return value.byteLength;
+  }
+  if (Array.isArray(value)) {
+    if (value.length > 0 && typeof value[0] === 'number') {
+      return value.length * 8;
+    }
+    return value.reduce((total: number, x) => total + estimateSize(x), 0);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce((total: number, x) => total + estimateSize(x), 0);
+  }
+  return 0;
+}
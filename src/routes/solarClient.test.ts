@@ -0,0 +1,166 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+/* eslint-disable @typescript-eslint/ban-ts-comment */
+// @ts-ignore: Node types are not included in the app type-check.
+import { readFile } from 'node:fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BuildingInsightsResponse, DownloadProgress, ImageryTier, LatLng } from './solar';
+import {
+  FixtureSolarApiClient,
+  findClosestBuildingWithFallback,
+  parseImageryTiers,
+  solarApiBackend,
+  type SolarApiClient,
+} from './solarClient';
+import { createSolarApiError, SolarInvalidKeyError, SolarNotFoundError } from './solarErrors';
+
+const location = { latitude: 44.6471, longitude: 10.9252 };
+
+describe('FixtureSolarApiClient', () => {
+  beforeEach(() => {
+    // Serve the fixtures from the static directory, like the dev server does.
+    vi.stubGlobal('fetch', async (url: string) => {
+      try {
+        return new Response(await readFile(`static${url}`));
+      } catch {
+        return new Response(null, { status: 404 });
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('serves the recorded building insights', async () => {
+    const client: SolarApiClient = new FixtureSolarApiClient();
+    const buildingInsights = await client.findClosestBuilding(location);
+    expect(buildingInsights.solarPotential.solarPanels.length).toBeGreaterThan(0);
+    expect(buildingInsights.solarPotential.solarPanelConfigs.length).toBeGreaterThan(0);
+  });
+
+  it('resolves data layer URLs against the fixtures directory', async () => {
+    const client: SolarApiClient = new FixtureSolarApiClient();
+    const dataLayers = await client.getDataLayerUrls(location, 25);
+    expect(dataLayers.maskUrl).toBe('/fixtures/solar/mask.tif');
+    expect(dataLayers.hourlyShadeUrls).toHaveLength(12);
+  });
+
+  it('decodes the recorded GeoTIFF files', async () => {
+    const client: SolarApiClient = new FixtureSolarApiClient();
+    const dataLayers = await client.getDataLayerUrls(location, 25);
+    const monthlyFlux = await client.downloadGeoTIFF(dataLayers.monthlyFluxUrl);
+    expect(monthlyFlux.rasters).toHaveLength(12);
+    expect(monthlyFlux.rasters[0]).toHaveLength(monthlyFlux.width * monthlyFlux.height);
+    expect(monthlyFlux.bounds.north).toBeGreaterThan(monthlyFlux.bounds.south);
+    expect(monthlyFlux.bounds.east).toBeGreaterThan(monthlyFlux.bounds.west);
+  });
+
+  it('reports the download and decoding progress', async () => {
+    const client: SolarApiClient = new FixtureSolarApiClient();
+    const dataLayers = await client.getDataLayerUrls(location, 25);
+    const progress: DownloadProgress[] = [];
+    await client.downloadGeoTIFF(dataLayers.maskUrl, {
+      onProgress: (event) => progress.push(event),
+    });
+    const states = progress.map((event) => event.state);
+    expect(states[0]).toBe('downloading');
+    expect(states.slice(-2)).toEqual(['decoding', 'done']);
+    const done = progress[progress.length - 1];
+    expect(done.receivedBytes).toBeGreaterThan(0);
+    expect(done.decodeMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('decodes the rasters into typed arrays', async () => {
+    const client: SolarApiClient = new FixtureSolarApiClient();
+    const dataLayers = await client.getDataLayerUrls(location, 25);
+    const [dsm, mask, hourlyShade] = await Promise.all([
+      client.downloadGeoTIFF(dataLayers.dsmUrl),
+      client.downloadGeoTIFF(dataLayers.maskUrl),
+      client.downloadGeoTIFF(dataLayers.hourlyShadeUrls[0]),
+    ]);
+    expect(dsm.rasters[0]).toBeInstanceOf(Float32Array);
+    expect(mask.rasters[0]).toBeInstanceOf(Uint32Array);
+    expect(hourlyShade.rasters).toHaveLength(24);
+    expect(hourlyShade.rasters[0]).toBeInstanceOf(Uint32Array);
+  });
+
+  it('fails like the Solar API for missing fixtures', async () => {
+    const client: SolarApiClient = new FixtureSolarApiClient('/fixtures/missing');
+    await expect(client.findClosestBuilding(location)).rejects.toMatchObject({
+      error: { code: 404, status: 'NOT_FOUND' },
+    });
+  });
+});
+
+describe('findClosestBuildingWithFallback', () => {
+  // Only has expanded coverage imagery, like many rural buildings.
+  function createClient(calls: ImageryTier[]): SolarApiClient {
+    const client: SolarApiClient = new FixtureSolarApiClient();
+    client.findClosestBuilding = async (_: LatLng, imageryTier: ImageryTier = 'MEDIUM') => {
+      calls.push(imageryTier);
+      if (imageryTier != 'EXPANDED_COVERAGE') {
+        throw createSolarApiError(
+          { error: { code: 404, message: 'Requested entity was not found.', status: 'NOT_FOUND' } },
+          imageryTier,
+        );
+      }
+      return { name: 'buildings/test', imageryQuality: 'BASE' } as BuildingInsightsResponse;
+    };
+    return client;
+  }
+
+  it('lowers the imagery quality until it finds the building', async () => {
+    const calls: ImageryTier[] = [];
+    const buildingInsights = await findClosestBuildingWithFallback(createClient(calls), location);
+    expect(calls).toEqual(['HIGH', 'MEDIUM', 'LOW', 'EXPANDED_COVERAGE']);
+    expect(buildingInsights.imageryTier).toBe('EXPANDED_COVERAGE');
+  });
+
+  it('fails with the last error when no tier finds the building', async () => {
+    const calls: ImageryTier[] = [];
+    const search = findClosestBuildingWithFallback(createClient(calls), location, ['HIGH', 'LOW']);
+    await expect(search).rejects.toBeInstanceOf(SolarNotFoundError);
+    expect(calls).toEqual(['HIGH', 'LOW']);
+  });
+
+  it('stops on errors that a lower quality would not fix', async () => {
+    const client = createClient([]);
+    client.findClosestBuilding = async () => {
+      throw new SolarInvalidKeyError({ code: 403, message: 'Denied', status: 'PERMISSION_DENIED' });
+    };
+    await expect(findClosestBuildingWithFallback(client, location)).rejects.toBeInstanceOf(
+      SolarInvalidKeyError,
+    );
+  });
+});
+
+describe('parseImageryTiers', () => {
+  it('keeps the known tiers in the given order', () => {
+    expect(parseImageryTiers('low, high,unknown')).toEqual(['LOW', 'HIGH']);
+    expect(parseImageryTiers('')).toEqual(['HIGH', 'MEDIUM', 'LOW', 'EXPANDED_COVERAGE']);
+  });
+});
+
+describe('solarApiBackend', () => {
+  it('goes through the proxy when the server has a key, unless told otherwise', () => {
+    expect(solarApiBackend(undefined, true)).toBe('proxy');
+    expect(solarApiBackend(undefined, false)).toBe('direct');
+    expect(solarApiBackend('direct', true)).toBe('direct');
+    expect(solarApiBackend('fixtures', true)).toBe('fixtures');
+  });
+});
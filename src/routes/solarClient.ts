@@ -0,0 +1,296 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import {
+  downloadGeoTIFF,
+  downloadGeoTIFFFile,
+  findClosestBuilding,
+  getDataLayerUrls,
+  readGeoTIFF,
+  type BuildingInsightsResponse,
+  type DataLayersRequestOptions,
+  type DataLayersResponse,
+  type GeoTiff,
+  type GeoTiffRequestOptions,
+  type ImageryTier,
+  type LatLng,
+} from './solar';
+import type { SolarRequestOptions } from './rateLimiter';
+import { CachedSolarApiClient } from './solarCache';
+import { SolarLowQualityError, SolarNotFoundError } from './solarErrors';
+
+/**
+ * Backend used by the app to talk to the Solar API.
+ *
+ * The sections and layers only go through this interface, so the live API
+ * can be swapped for recorded fixtures during development and testing.
+ * Failed requests reject with a `SolarApiError`, aborted requests reject with
+ * the reason of their signal. Prefetches give way to the requests of the user.
+ */
+export interface SolarApiClient {
+  findClosestBuilding(
+    location: LatLng,
+    imageryTier?: ImageryTier,
+    options?: SolarRequestOptions,
+  ): Promise<BuildingInsightsResponse>;
+  getDataLayerUrls(
+    location: LatLng,
+    radiusMeters: number,
+    options?: DataLayersRequestOptions,
+  ): Promise<DataLayersResponse>;
+  downloadGeoTIFF(url: string, options?: GeoTiffRequestOptions): Promise<GeoTiff>;
+  // Original GeoTIFF file, without decoding it.
+  downloadGeoTIFFFile(url: string, options?: SolarRequestOptions): Promise<Blob>;
+}
+
+/**
+ * Calls the Solar API directly with a Google Cloud API key.
+ */
+export class LiveSolarApiClient implements SolarApiClient {
+  constructor(private apiKey: string) {}
+
+  findClosestBuilding(
+    location: LatLng,
+    imageryTier?: ImageryTier,
+    options?: SolarRequestOptions,
+  ): Promise<BuildingInsightsResponse> {
+    return findClosestBuilding(location, this.apiKey, undefined, imageryTier, options);
+  }
+
+  getDataLayerUrls(
+    location: LatLng,
+    radiusMeters: number,
+    options?: DataLayersRequestOptions,
+  ): Promise<DataLayersResponse> {
+    return getDataLayerUrls(location, radiusMeters, this.apiKey, undefined, options);
+  }
+
+  downloadGeoTIFF(url: string, options?: GeoTiffRequestOptions): Promise<GeoTiff> {
+    return downloadGeoTIFF(url, this.apiKey, options);
+  }
+
+  downloadGeoTIFFFile(url: string, options?: SolarRequestOptions): Promise<Blob> {
+    return downloadGeoTIFFFile(url, this.apiKey, options);
+  }
+}
+
+/**
+ * Calls the Solar API through our own server, which adds its private API key.
+ *
+ * See the endpoints in `src/routes/api/solar`.
+ */
+export class ProxySolarApiClient implements SolarApiClient {
+  constructor(private baseUrl: string = '/api/solar') {}
+
+  findClosestBuilding(
+    location: LatLng,
+    imageryTier?: ImageryTier,
+    options?: SolarRequestOptions,
+  ): Promise<BuildingInsightsResponse> {
+    const endpoint = `${this.baseUrl}/buildingInsights`;
+    return findClosestBuilding(location, '', endpoint, imageryTier, options);
+  }
+
+  getDataLayerUrls(
+    location: LatLng,
+    radiusMeters: number,
+    options?: DataLayersRequestOptions,
+  ): Promise<DataLayersResponse> {
+    const endpoint = `${this.baseUrl}/dataLayers`;
+    return getDataLayerUrls(location, radiusMeters, '', endpoint, options);
+  }
+
+  downloadGeoTIFF(url: string, options?: GeoTiffRequestOptions): Promise<GeoTiff> {
+    return downloadGeoTIFF(url, '', options);
+  }
+
+  downloadGeoTIFFFile(url: string, options?: SolarRequestOptions): Promise<Blob> {
+    return downloadGeoTIFFFile(url, '', options);
+  }
+}
+
+/**
+ * Serves recorded Solar API responses, no API key or network required.
+ *
+ * The fixtures directory must contain a `buildingInsights.json` and a
+ * `dataLayers.json` response. The URLs in `dataLayers.json` are file names
+ * of GeoTIFF files in the same directory. The same building is returned
+ * for any location, with all its layers whatever the view requested.
+ */
+export class FixtureSolarApiClient implements SolarApiClient {
+  constructor(private baseUrl: string = '/fixtures/solar') {}
+
+  findClosestBuilding(
+    _location: LatLng,
+    _imageryTier?: ImageryTier,
+    options?: SolarRequestOptions,
+  ): Promise<BuildingInsightsResponse> {
+    return this.fetchJson('buildingInsights.json', options?.signal);
+  }
+
+  async getDataLayerUrls(
+    _location: LatLng,
+    _radiusMeters: number,
+    options?: DataLayersRequestOptions,
+  ): Promise<DataLayersResponse> {
+    const response: DataLayersResponse = await this.fetchJson('dataLayers.json', options?.signal);
+    return {
+      ...response,
+      dsmUrl: this.resolve(response.dsmUrl),
+      rgbUrl: this.resolve(response.rgbUrl),
+      maskUrl: this.resolve(response.maskUrl),
+      annualFluxUrl: this.resolve(response.annualFluxUrl),
+      monthlyFluxUrl: this.resolve(response.monthlyFluxUrl),
+      hourlyShadeUrls: response.hourlyShadeUrls.map((url) => this.resolve(url)),
+    };
+  }
+
+  async downloadGeoTIFF(url: string, options?: GeoTiffRequestOptions): Promise<GeoTiff> {
+    const response = await this.fetchFixture(url, options?.signal);
+    return readGeoTIFF(response, options?.onProgress);
+  }
+
+  async downloadGeoTIFFFile(url: string, options?: SolarRequestOptions): Promise<Blob> {
+    const response = await this.fetchFixture(url, options?.signal);
+    return response.blob();
+  }
+
+  private resolve(fileName: string): string {
+    return `${this.baseUrl}/${fileName}`;
+  }
+
+  private async fetchJson<T>(fileName: string, signal?: AbortSignal): Promise<T> {
+    const response = await this.fetchFixture(this.resolve(fileName), signal);
+    return response.json();
+  }
+
+  private async fetchFixture(url: string, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(url, { signal });
+    if (response.status !== 200) {
+      const error = new SolarNotFoundError({
+        code: response.status,
+        message: `Solar API fixture not found: ${url}`,
+        status: 'NOT_FOUND',
+      });
+      console.error('fetchFixture\n', error);
+      throw error;
+    }
+    return response;
+  }
+}
+
+// Tried in order until one finds the building.
+export const defaultImageryTiers: ImageryTier[] = ['HIGH', 'MEDIUM', 'LOW', 'EXPANDED_COVERAGE'];
+
+/**
+ * Parses a comma separated list of imagery tiers, like `HIGH,MEDIUM,LOW`.
+ *
+ * @param  {string} value  Imagery tiers, all the tiers if empty.
+ * @return {ImageryTier[]}  Imagery tiers in the given order.
+ */
+export function parseImageryTiers(value: string | undefined): ImageryTier[] {
+  const tiers = (value ?? '')
+    .split(',')
+    .map((tier) => tier.trim().toUpperCase())
+    .filter((tier): tier is ImageryTier => defaultImageryTiers.includes(tier as ImageryTier));
+  return tiers.length > 0 ? tiers : defaultImageryTiers;
+}
+
+// Set `VITE_SOLAR_IMAGERY_TIERS` to skip tiers, like expanded coverage.
+export const imageryTiers = parseImageryTiers(import.meta.env.VITE_SOLAR_IMAGERY_TIERS);
+
+/**
+ * Finds the closest building with the most accurate imagery available.
+ *
+ * Each tier is requested in order, moving to the next one while the Solar API
+ * has no imagery of the tier's quality. The response records the tier that
+ * found the building in `imageryTier`.
+ *
+ * @param  {SolarApiClient} solarApi  Solar API client.
+ * @param  {LatLng} location          Point of interest as latitude longitude.
+ * @param  {ImageryTier[]} tiers      Imagery tiers to try, in order.
+ * @param  {SolarRequestOptions} options  Priority, and signal to cancel the remaining requests.
+ * @return {Promise<BuildingInsightsResponse>}  Building Insights response.
+ */
+export async function findClosestBuildingWithFallback(
+  solarApi: SolarApiClient,
+  location: LatLng,
+  tiers: ImageryTier[] = imageryTiers,
+  options?: SolarRequestOptions,
+): Promise<BuildingInsightsResponse> {
+  let lastError: unknown;
+  for (const imageryTier of tiers) {
+    try {
+      const response = await solarApi.findClosestBuilding(location, imageryTier, options);
+      return { ...response, imageryTier };
+    } catch (e) {
+      if (!(e instanceof SolarLowQualityError || e instanceof SolarNotFoundError)) {
+        throw e;
+      }
+      console.warn(`findClosestBuildingWithFallback: no ${imageryTier} imagery`);
+      lastError = e;
+    }
+  }
+  throw lastError;
+}
+
+export type SolarApiBackend = 'fixtures' | 'proxy' | 'direct';
+
+/**
+ * Picks the Solar API backend from `VITE_SOLAR_API_BACKEND`.
+ *
+ * Without a backend set, the app goes through the proxy when the server has a
+ * `SOLAR_API_KEY`, so the key stays out of the browser. Calling the Solar API
+ * directly with the browser's key takes `direct`.
+ *
+ * @param  {string | undefined} backend  Value of `VITE_SOLAR_API_BACKEND`.
+ * @param  {boolean} serverApiKey  Whether the server has a `SOLAR_API_KEY`.
+ * @return {SolarApiBackend}  Backend to use.
+ */
+export function solarApiBackend(
+  backend: string | undefined,
+  serverApiKey: boolean,
+): SolarApiBackend {
+  if (backend == 'fixtures' || backend == 'proxy' || backend == 'direct') {
+    return backend;
+  }
+  if (backend) {
+    console.warn(`solarApiBackend: unknown backend ${backend}`);
+  }
+  return serverApiKey ? 'proxy' : 'direct';
+}
+
+/**
+ * Creates the Solar API client selected by `VITE_SOLAR_API_BACKEND`.
+ *
+ * Use `fixtures` to serve the recorded responses from `static/fixtures/solar`,
+ * `proxy` to call the Solar API through our own server and `direct` to call
+ * the Solar API from the browser, see `solarApiBackend` for the default.
+ * Both live backends go through a persistent cache.
+ *
+ * @param  {string} apiKey  Google Cloud API key.
+ * @return {SolarApiClient}  Solar API client.
+ */
+export function createSolarApiClient(apiKey: string): SolarApiClient {
+  switch (solarApiBackend(import.meta.env.VITE_SOLAR_API_BACKEND, __SOLAR_API_KEY_ON_SERVER__)) {
+    case 'fixtures':
+      return new FixtureSolarApiClient();
+    case 'proxy':
+      return new CachedSolarApiClient(new ProxySolarApiClient());
+    case 'direct':
+      return new CachedSolarApiClient(new LiveSolarApiClient(apiKey));
+  }
+}
@@ -0,0 +1,76 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  createSolarApiError,
+  SolarApiError,
+  SolarInvalidKeyError,
+  SolarLowQualityError,
+  SolarNetworkError,
+  SolarNotFoundError,
+  SolarQuotaError,
+  toSolarApiError,
+} from './solarErrors';
+
+function requestError(code: number, status: string, message = 'Solar API error') {
+  return { error: { code, message, status } };
+}
+
+describe('createSolarApiError', () => {
+  it('tells missing coverage from imagery below the required quality', () => {
+    const notFound = requestError(404, 'NOT_FOUND');
+    expect(createSolarApiError(notFound, 'LOW')).toBeInstanceOf(SolarNotFoundError);
+    const lowQuality = createSolarApiError(notFound, 'HIGH');
+    expect(lowQuality).toBeInstanceOf(SolarLowQualityError);
+    expect((lowQuality as SolarLowQualityError).lowerQuality).toBe('MEDIUM');
+  });
+
+  it('waits for the retry-after header when out of quota', () => {
+    const exhausted = requestError(429, 'RESOURCE_EXHAUSTED');
+    const error = createSolarApiError(exhausted, undefined, '30');
+    expect(error).toBeInstanceOf(SolarQuotaError);
+    expect((error as SolarQuotaError).retryAfterSeconds).toBe(30);
+    expect((createSolarApiError(exhausted) as SolarQuotaError).retryAfterSeconds).toBe(60);
+  });
+
+  it('recognizes invalid API keys', () => {
+    const invalidKey = requestError(400, 'INVALID_ARGUMENT', 'API key not valid.');
+    expect(createSolarApiError(invalidKey)).toBeInstanceOf(SolarInvalidKeyError);
+    expect(createSolarApiError(requestError(403, 'PERMISSION_DENIED'))).toBeInstanceOf(
+      SolarInvalidKeyError,
+    );
+    expect(createSolarApiError(requestError(400, 'INVALID_ARGUMENT'))).not.toBeInstanceOf(
+      SolarInvalidKeyError,
+    );
+  });
+
+  it('keeps the Solar API error body', () => {
+    const error = createSolarApiError(requestError(503, 'UNAVAILABLE', 'Try again.'));
+    expect(error).toBeInstanceOf(SolarNetworkError);
+    expect(error.error).toEqual({ code: 503, message: 'Try again.', status: 'UNAVAILABLE' });
+    expect(error.message).toBe('Try again.');
+  });
+});
+
+describe('toSolarApiError', () => {
+  it('wraps unexpected errors', () => {
+    const error = toSolarApiError(new RangeError('Invalid array length'));
+    expect(error).toBeInstanceOf(SolarApiError);
+    expect(error.kind).toBe('unknown');
+    expect(error.error.message).toBe('Invalid array length');
+  });
+});
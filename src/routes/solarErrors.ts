@@ -0,0 +1,170 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { ImageryQuality, RequestError } from './solar';
+
+export type SolarApiErrorKind =
+  | 'notFound'
+  | 'quotaExhausted'
+  | 'invalidKey'
+  | 'lowQuality'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Error from the Solar API or from reaching it.
+ *
+ * Keeps the `error` body of the Solar API response, so it can still be read
+ * like a `RequestError`. The subclasses tell the sections what went wrong and
+ * which action can recover from it.
+ */
+export class SolarApiError extends Error {
+  readonly kind: SolarApiErrorKind = 'unknown';
+
+  constructor(readonly error: RequestError['error']) {
+    super(error.message);
+    this.name = 'SolarApiError';
+  }
+}
+
+/**
+ * The Solar API has no coverage for the location.
+ */
+export class SolarNotFoundError extends SolarApiError {
+  readonly kind = 'notFound';
+}
+
+/**
+ * The project ran out of Solar API quota, or the client is rate limited.
+ */
+export class SolarQuotaError extends SolarApiError {
+  readonly kind = 'quotaExhausted';
+
+  constructor(
+    error: RequestError['error'],
+    readonly retryAfterSeconds: number,
+  ) {
+    super(error);
+  }
+}
+
+/**
+ * The API key is missing, not valid, or not allowed to call the Solar API.
+ */
+export class SolarInvalidKeyError extends SolarApiError {
+  readonly kind = 'invalidKey';
+}
+
+/**
+ * There is imagery for the location, but not of the required quality.
+ */
+export class SolarLowQualityError extends SolarApiError {
+  readonly kind = 'lowQuality';
+
+  constructor(
+    error: RequestError['error'],
+    readonly requiredQuality: ImageryQuality,
+  ) {
+    super(error);
+  }
+
+  // Next quality to request, the Solar API returns the highest available.
+  get lowerQuality(): 'MEDIUM' | 'LOW' {
+    return this.requiredQuality == 'HIGH' ? 'MEDIUM' : 'LOW';
+  }
+}
+
+/**
+ * The Solar API could not be reached, or it is temporarily unavailable.
+ */
+export class SolarNetworkError extends SolarApiError {
+  readonly kind = 'network';
+}
+
+// Used when the Solar API doesn't say how long to wait.
+const defaultRetryAfterSeconds = 60;
+
+/**
+ * Creates the error for a failed Solar API response.
+ *
+ * The Solar API answers NOT_FOUND both when there is no imagery and when
+ * there is only imagery below the required quality, so any NOT_FOUND with a
+ * required quality above LOW is reported as low quality.
+ *
+ * @param  {RequestError} content  Body of the Solar API response.
+ * @param  {ImageryQuality} requiredQuality  Quality asked in the request, if any.
+ * @param  {string | null} retryAfter  Value of the `retry-after` header, if any.
+ * @return {SolarApiError}  Error for the response.
+ */
+export function createSolarApiError(
+  content: RequestError,
+  requiredQuality?: ImageryQuality,
+  retryAfter?: string | null,
+): SolarApiError {
+  const error = content.error ?? { code: 500, message: 'Unknown error', status: 'UNKNOWN' };
+  switch (error.status) {
+    case 'NOT_FOUND':
+      return requiredQuality == 'HIGH' || requiredQuality == 'MEDIUM'
+        ? new SolarLowQualityError(error, requiredQuality)
+        : new SolarNotFoundError(error);
+    case 'RESOURCE_EXHAUSTED':
+      return new SolarQuotaError(error, Number(retryAfter) || defaultRetryAfterSeconds);
+    case 'UNAUTHENTICATED':
+    case 'PERMISSION_DENIED':
+    case 'FAILED_PRECONDITION':
+      return new SolarInvalidKeyError(error);
+    case 'INVALID_ARGUMENT':
+      return error.message.includes('API key')
+        ? new SolarInvalidKeyError(error)
+        : new SolarApiError(error);
+    case 'UNAVAILABLE':
+    case 'DEADLINE_EXCEEDED':
+      return new SolarNetworkError(error);
+  }
+  return new SolarApiError(error);
+}
+
+/**
+ * Wraps anything thrown while calling the Solar API into a `SolarApiError`.
+ *
+ * @param  {unknown} e  Thrown value, like a rendering error.
+ * @return {SolarApiError}  Error to show to the user.
+ */
+export function toSolarApiError(e: unknown): SolarApiError {
+  if (e instanceof SolarApiError) {
+    return e;
+  }
+  if (typeof e == 'object' && e && 'error' in e) {
+    return createSolarApiError(e as RequestError);
+  }
+  return new SolarApiError({
+    code: 500,
+    message: e instanceof Error ? e.message : String(e),
+    status: 'INTERNAL',
+  });
+}
+
+/**
+ * Checks if a request failed because its signal was aborted.
+ *
+ * Aborted requests are not errors to show, they were replaced by newer ones.
+ *
+ * @param  {unknown} e  Thrown value.
+ * @return {boolean}  Whether the request was aborted.
+ */
+export function isAbortError(e: unknown): boolean {
+  return e instanceof Error && e.name == 'AbortError';
+}
@@ -0,0 +1,78 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { localTime, sunPosition, sunTimes, timeZoneAt } from './solarPosition';
+
+// Royal Observatory, Greenwich.
+const greenwich = { latitude: 51.4769, longitude: -0.0005 };
+
+function minutesBetween(a: Date | undefined, b: Date) {
+  return Math.abs((a?.getTime() ?? NaN) - b.getTime()) / 60000;
+}
+
+describe('solarPosition', () => {
+  it('finds the sun at noon of the summer solstice', () => {
+    const { azimuth, elevation } = sunPosition(
+      new Date('2024-06-21T12:00:00Z'),
+      greenwich.latitude,
+      greenwich.longitude,
+    );
+    expect(elevation).toBeCloseTo(61.96, 1);
+    expect(Math.abs(azimuth - 180)).toBeLessThan(1);
+  });
+
+  it('puts the morning sun in the east and the night below the horizon', () => {
+    const morning = sunPosition(new Date('2024-03-20T08:00:00Z'), 44.647, 10.925);
+    expect(morning.azimuth).toBeGreaterThan(90);
+    expect(morning.azimuth).toBeLessThan(135);
+    expect(sunPosition(new Date('2024-03-20T23:00:00Z'), 44.647, 10.925).elevation).toBeLessThan(0);
+  });
+
+  it('finds the sunrise and sunset', () => {
+    const times = sunTimes(
+      new Date('2024-06-21T00:00:00Z'),
+      greenwich.latitude,
+      greenwich.longitude,
+    );
+    expect(minutesBetween(times.sunrise, new Date('2024-06-21T03:43:00Z'))).toBeLessThan(2);
+    expect(minutesBetween(times.sunset, new Date('2024-06-21T20:21:00Z'))).toBeLessThan(2);
+    expect(minutesBetween(times.solarNoon, new Date('2024-06-21T12:02:00Z'))).toBeLessThan(1);
+  });
+
+  it('has no sunset in the polar day', () => {
+    const times = sunTimes(new Date('2024-06-21T00:00:00Z'), 78.22, 15.65);
+    expect(times.sunrise).toBeUndefined();
+    expect(times.sunset).toBeUndefined();
+  });
+
+  it('uses the time zone of the place, with daylight saving time', () => {
+    const madrid = timeZoneAt(40.4168, -3.7038);
+    expect(madrid).toBe('Europe/Madrid');
+    expect(localTime(2024, 5, 21, 15, madrid).toISOString()).toBe('2024-06-21T13:00:00.000Z');
+    expect(localTime(2024, 0, 15, 15, madrid).toISOString()).toBe('2024-01-15T14:00:00.000Z');
+  });
+
+  it('puts the sun of the 3pm shade band where it is at 3pm', () => {
+    // The hourly shade bands are in local time. At 3pm in Madrid in summer the
+    // sun has just passed the south, at 3pm UTC it's already in the west.
+    const time = localTime(2024, 5, 21, 15, timeZoneAt(40.4168, -3.7038));
+    const { azimuth, elevation } = sunPosition(time, 40.4168, -3.7038);
+    expect(azimuth).toBeGreaterThan(195);
+    expect(azimuth).toBeLessThan(225);
+    expect(elevation).toBeGreaterThan(60);
+  });
+});
@@ -0,0 +1,212 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+// Sun position from the NOAA solar calculator, accurate to about a minute
+// of arc between 1800 and 2100.
+//   https://gml.noaa.gov/grad/solcalc/calcdetails.html
+
+import tzLookup from '@photostructure/tz-lookup';
+
+export interface SunPosition {
+  // Degrees clockwise from north, like the roof segment azimuths.
+  azimuth: number;
+  // Degrees above the horizon, negative at night, without refraction.
+  elevation: number;
+}
+
+export interface SunTimes {
+  // Undefined during the polar day and night.
+  sunrise?: Date;
+  sunset?: Date;
+  solarNoon: Date;
+}
+
+const radians = Math.PI / 180;
+const degrees = 180 / Math.PI;
+
+/**
+ * Finds where the sun is in the sky.
+ *
+ * @param  {Date}   date       Point in time.
+ * @param  {number} latitude   Latitude of the observer.
+ * @param  {number} longitude  Longitude of the observer, east is positive.
+ * @return {SunPosition}  Azimuth and elevation of the sun.
+ */
+export function sunPosition(date: Date, latitude: number, longitude: number): SunPosition {
+  const { declination, equationOfTime } = solarCoordinates(date);
+  const utcMinutes = (date.getTime() / 60000) % 1440;
+  const trueSolarMinutes = (((utcMinutes + equationOfTime + 4 * longitude) % 1440) + 1440) % 1440;
+  const hourAngle = (trueSolarMinutes / 4 - 180) * radians;
+  const lat = latitude * radians;
+
+  const cosZenith =
+    Math.sin(lat) * Math.sin(declination) +
+    Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle);
+  const zenith = Math.acos(Math.min(Math.max(cosZenith, -1), 1));
+  // Measured from the south towards the west, then turned to start from the north.
+  const azimuth =
+    Math.atan2(
+      Math.sin(hourAngle),
+      Math.cos(hourAngle) * Math.sin(lat) - Math.tan(declination) * Math.cos(lat),
+    ) *
+      degrees +
+    180;
+  return { azimuth: azimuth % 360, elevation: 90 - zenith * degrees };
+}
+
+/**
+ * Finds the sunrise, solar noon and sunset of a day.
+ *
+ * Sunrise and sunset are when the top of the sun crosses the horizon, with the
+ * usual 0.833° for the refraction and the size of the sun.
+ *
+ * @param  {Date}   date       Any time of the day, in UTC.
+ * @param  {number} latitude   Latitude of the observer.
+ * @param  {number} longitude  Longitude of the observer, east is positive.
+ * @return {SunTimes}  Sunrise, solar noon and sunset.
+ */
+export function sunTimes(date: Date, latitude: number, longitude: number): SunTimes {
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  // The sun moves little in a day, its coordinates at noon are enough.
+  const noonGuess = new Date(midnight + (720 - 4 * longitude) * 60000);
+  const { declination, equationOfTime } = solarCoordinates(noonGuess);
+  const noonMinutes = 720 - 4 * longitude - equationOfTime;
+  const solarNoon = new Date(midnight + noonMinutes * 60000);
+
+  const lat = latitude * radians;
+  const cosHourAngle =
+    Math.cos(90.833 * radians) / (Math.cos(lat) * Math.cos(declination)) -
+    Math.tan(lat) * Math.tan(declination);
+  if (Math.abs(cosHourAngle) > 1) {
+    return { solarNoon };
+  }
+  const hourAngleMinutes = 4 * Math.acos(cosHourAngle) * degrees;
+  return {
+    sunrise: new Date(solarNoon.getTime() - hourAngleMinutes * 60000),
+    sunset: new Date(solarNoon.getTime() + hourAngleMinutes * 60000),
+    solarNoon,
+  };
+}
+
+/**
+ * Finds the time zone of a place.
+ *
+ * The Solar API doesn't say the time zone of a building, but the hours of its
+ * hourly shade are in local time, so it's looked up from the location.
+ *
+ * @param  {number} latitude   Latitude of the place.
+ * @param  {number} longitude  Longitude of the place.
+ * @return {string}  IANA time zone, like `Europe/Rome`.
+ */
+export function timeZoneAt(latitude: number, longitude: number): string {
+  return tzLookup(latitude, longitude);
+}
+
+// Creating a formatter is slow, and the sun path converts many times.
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Finds how far ahead of UTC a time zone is, with daylight saving time.
+ *
+ * @param  {Date}   date      Point in time.
+ * @param  {string} timeZone  IANA time zone.
+ * @return {number}  Hours ahead of UTC.
+ */
+export function utcOffsetHours(date: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map(({ type, value }) => [type, Number(value)]),
+  );
+  const local = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return (local - Math.floor(date.getTime() / 1000) * 1000) / 3600000;
+}
+
+/**
+ * Converts a local month, day and hour into a point in time.
+ *
+ * @param  {number} year      Full year.
+ * @param  {number} month     Month, 0 for January.
+ * @param  {number} day       Day of the month, from 1.
+ * @param  {number} hour      Hour of the day, can have a fraction.
+ * @param  {string} timeZone  IANA time zone of the place.
+ * @return {Date}  Point in time.
+ */
+export function localTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  timeZone: string,
+): Date {
+  const clock = Date.UTC(year, month, day) + hour * 3600000;
+  // The offset can change during the day, take the one at about that time.
+  const guess = clock - utcOffsetHours(new Date(clock), timeZone) * 3600000;
+  return new Date(clock - utcOffsetHours(new Date(guess), timeZone) * 3600000);
+}
+
+// Declination of the sun in radians, and equation of time in minutes.
+function solarCoordinates(date: Date): { declination: number; equationOfTime: number } {
+  const julianDay = date.getTime() / 86400000 + 2440587.5;
+  const t = (julianDay - 2451545) / 36525;
+
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const m = meanAnomaly * radians;
+  const center =
+    Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * m) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * m) * 0.000289;
+  const omega = (125.04 - 1934.136 * t) * radians;
+  const apparentLongitude =
+    (meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega)) * radians;
+  const meanObliquity =
+    23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = (meanObliquity + 0.00256 * Math.cos(omega)) * radians;
+
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(apparentLongitude));
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = meanLongitude * radians;
+  const equationOfTime =
+    4 *
+    degrees *
+    (y * Math.sin(2 * l0) -
+      2 * eccentricity * Math.sin(m) +
+      4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0) -
+      0.5 * y * y * Math.sin(4 * l0) -
+      1.25 * eccentricity * eccentricity * Math.sin(2 * m));
+  return { declination, equationOfTime };
+}
@@ -0,0 +1,55 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { get } from 'svelte/store';
+import { describe, expect, it } from 'vitest';
+import { viridisPalette } from '../colors';
+import {
+  defaultPaletteSettings,
+  deleteCustomPalette,
+  loadPaletteSettings,
+  paletteColors,
+  paletteStore,
+  saveCustomPalette,
+  selectPalette,
+} from './paletteStore';
+
+describe('paletteStore', () => {
+  it('loads the saved settings, or the defaults', () => {
+    const saved = { selected: 'mine', custom: { mine: ['#000000', '#ffffff'] } };
+    expect(loadPaletteSettings({ getItem: () => JSON.stringify(saved) })).toEqual(saved);
+    expect(loadPaletteSettings({ getItem: () => null })).toEqual(defaultPaletteSettings);
+    expect(loadPaletteSettings({ getItem: () => '{' })).toEqual(defaultPaletteSettings);
+  });
+
+  it('finds the colors of the selected palette', () => {
+    expect(paletteColors(defaultPaletteSettings)).toBeUndefined();
+    expect(paletteColors({ selected: 'viridis', custom: {} })).toEqual(viridisPalette);
+    expect(paletteColors({ selected: 'mine', custom: { mine: ['#000000'] } })).toEqual(['#000000']);
+  });
+
+  it('goes back to the default palette when the selected one is deleted', () => {
+    saveCustomPalette('mine', ['#000000', '#ffffff']);
+    expect(get(paletteStore).selected).toBe('mine');
+    selectPalette('magma');
+    deleteCustomPalette('mine');
+    expect(get(paletteStore)).toEqual({ selected: 'magma', custom: {} });
+
+    saveCustomPalette('mine', ['#000000', '#ffffff']);
+    deleteCustomPalette('mine');
+    expect(get(paletteStore)).toEqual(defaultPaletteSettings);
+  });
+});
@@ -0,0 +1,90 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { writable } from 'svelte/store';
+import { paletteRegistry } from '../colors';
+
+export interface PaletteSettings {
+  // Palette of the layers with a sequential scale and of the panels,
+  // `default` keeps the own palette of each one.
+  selected: string;
+  // Gradients defined by the user, by name.
+  custom: Record<string, string[]>;
+}
+
+const paletteStorageKey = 'solarApp_palettes';
+
+export const defaultPaletteSettings: PaletteSettings = { selected: 'default', custom: {} };
+
+/**
+ * Loads the palettes of the user, saved in local storage.
+ *
+ * @param  {Pick<Storage, 'getItem'>} storage  Where the settings are saved.
+ * @return {PaletteSettings}  Saved settings, or the defaults.
+ */
+export function loadPaletteSettings(
+  storage: Pick<Storage, 'getItem'> | undefined = globalThis.localStorage,
+): PaletteSettings {
+  try {
+    const stored = JSON.parse(storage?.getItem(paletteStorageKey) ?? 'null');
+    if (stored) {
+      return { ...defaultPaletteSettings, ...stored };
+    }
+  } catch (error) {
+    console.warn('Failed to load the palettes:', error);
+  }
+  return defaultPaletteSettings;
+}
+
+export const paletteStore = writable<PaletteSettings>(loadPaletteSettings());
+
+paletteStore.subscribe((settings) => {
+  try {
+    globalThis.localStorage?.setItem(paletteStorageKey, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to persist the palettes:', error);
+  }
+});
+
+/**
+ * Finds the colors of the selected palette.
+ *
+ * @param  {PaletteSettings} settings  Palettes of the user.
+ * @return {string[] | undefined}  Hex colors, undefined to keep the default ones.
+ */
+export function paletteColors(settings: PaletteSettings): string[] | undefined {
+  return settings.custom[settings.selected] ?? paletteRegistry[settings.selected];
+}
+
+export function selectPalette(name: string) {
+  paletteStore.update((settings) => ({ ...settings, selected: name }));
+}
+
+// Saving a gradient with the name of another one replaces it.
+export function saveCustomPalette(name: string, colors: string[]) {
+  paletteStore.update((settings) => ({
+    selected: name,
+    custom: { ...settings.custom, [name]: colors },
+  }));
+}
+
+export function deleteCustomPalette(name: string) {
+  paletteStore.update(({ selected, custom }) => {
+    const remaining = { ...custom };
+    delete remaining[name];
+    return { selected: selected == name ? 'default' : selected, custom: remaining };
+  });
+}
@@ -1,4 +1,5 @@
 import { writable } from 'svelte/store';
+import type { PanelLayout } from '../panelLayout';
 import type { SolarPanelConfig } from '../solar';
 
 export interface PanelConfigState {
@@ -7,6 +8,9 @@ export interface PanelConfigState {
   manualConfigOverride: boolean;
   solarPanelConfigs: SolarPanelConfig[];
   defaultPanelCapacityWatts: number;
+  // Panels placed by hand in the layout editor, used instead of the config.
+  layout?: PanelLayout;
+  layoutConfig?: SolarPanelConfig;
 }
 
 export const panelConfigStore = writable<PanelConfigState>({
@@ -24,6 +28,9 @@ export function updatePanelConfig(partial: Partial<PanelConfigState>) {
 
 // Helper function to get current panel config
 export function getCurrentPanelConfig(state: PanelConfigState): SolarPanelConfig | undefined {
+  if (state.layoutConfig) {
+    return state.layoutConfig;
+  }
   if (state.configId === undefined || state.configId < 0 || state.configId >= state.solarPanelConfigs.length) {
     return undefined;
   }
@@ -0,0 +1,64 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { GeoTiff } from './solar';
+import { hillshade, pixelSize, slopeAspect, validMask } from './terrain';
+
+// About 10 x 10 meters at the equator, with 1 meter pixels.
+const bounds = { north: 10 / 111195, south: 0, east: 10 / 111195, west: 0 };
+
+function dsm(height: (x: number, y: number) => number): GeoTiff {
+  const rasters = [
+    Float32Array.from({ length: 100 }, (_, i) => height(i % 10, Math.floor(i / 10))),
+  ];
+  return { width: 10, height: 10, rasters, bounds };
+}
+
+describe('terrain', () => {
+  it('measures the pixels from the bounds', () => {
+    const size = pixelSize(dsm(() => 0));
+    expect(size.x).toBeCloseTo(1, 2);
+    expect(size.y).toBeCloseTo(1, 2);
+  });
+
+  it('finds the slope and the direction a roof faces', () => {
+    // Rises to the north by 1 meter every meter, so it faces south at 45°.
+    const { slope, aspect } = slopeAspect(dsm((_, y) => 10 - y));
+    expect(slope.rasters[0][55]).toBeCloseTo(45, 0);
+    expect(aspect.rasters[0][55]).toBeCloseTo(180, 0);
+
+    // Rises to the west, so it faces east.
+    expect(slopeAspect(dsm((x) => 10 - x)).aspect.rasters[0][55]).toBeCloseTo(90, 0);
+
+    // The edges have no neighbours.
+    expect(slope.rasters[0][0]).toBe(-9999);
+  });
+
+  it('leaves flat surfaces without aspect', () => {
+    const { slope, aspect } = slopeAspect(dsm(() => 5));
+    expect(slope.rasters[0][55]).toBe(0);
+    expect(aspect.rasters[0][55]).toBe(-9999);
+    expect(hillshade(slope, aspect).rasters[0][55]).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('hides invalid pixels and what is not roof', () => {
+    const data = dsm((x) => (x == 0 ? -9999 : 1));
+    const roof: GeoTiff = { width: 1, height: 2, rasters: [Uint32Array.of(1, 0)], bounds };
+    const visible = validMask(data, roof).rasters[0];
+    expect([visible[0], visible[1], visible[91]]).toEqual([0, 1, 0]);
+  });
+});
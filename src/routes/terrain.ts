@@ -0,0 +1,141 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { GeoTiff } from './solar';
+
+// Mean radius of the Earth in meters.
+const earthRadius = 6371008.8;
+
+// Slopes below this are flat, they don't face any direction.
+export const flatSlopeDegrees = 2;
+
+/**
+ * Finds the size of the pixels of a raster from its lat/lon bounds.
+ *
+ * @param  {GeoTiff} geoTiff  Raster with its lat/lon bounds.
+ * @return {{x, y}}  Width and height of a pixel in meters.
+ */
+export function pixelSize(geoTiff: GeoTiff): { x: number; y: number } {
+  const { north, south, east, west } = geoTiff.bounds;
+  const radians = Math.PI / 180;
+  const latitude = ((north + south) / 2) * radians;
+  return {
+    x: ((east - west) * radians * earthRadius * Math.cos(latitude)) / geoTiff.width,
+    y: ((north - south) * radians * earthRadius) / geoTiff.height,
+  };
+}
+
+/**
+ * Computes the slope and aspect of the surface from a DSM.
+ *
+ * Uses Horn's method: the height change to the east and to the north of each
+ * pixel is weighted from its 8 neighbours. Pixels next to an invalid height
+ * or the edge of the raster are invalid (-9999), like flat pixels for aspect.
+ *
+ * @param  {GeoTiff} dsm  Digital Surface Model, heights in meters.
+ * @return {{slope, aspect}}  Slope in degrees from horizontal, and aspect in
+ *                            degrees clockwise from north, the direction the
+ *                            surface faces like the roof segment azimuths.
+ */
+export function slopeAspect(dsm: GeoTiff): { slope: GeoTiff; aspect: GeoTiff } {
+  const { width, height } = dsm;
+  const heights = dsm.rasters[0];
+  const size = pixelSize(dsm);
+  const slope = new Float32Array(width * height).fill(-9999);
+  const aspect = new Float32Array(width * height).fill(-9999);
+  const degrees = 180 / Math.PI;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      // Neighbours from the top left, in reading order.
+      const z = [-1, 0, 1].flatMap((dy) =>
+        [-1, 0, 1].map((dx) => heights[(y + dy) * width + x + dx]),
+      );
+      if (z.some((value) => value <= -9999)) {
+        continue;
+      }
+      const east = (z[2] + 2 * z[5] + z[8] - (z[0] + 2 * z[3] + z[6])) / (8 * size.x);
+      // Rows go from north to south.
+      const north = (z[0] + 2 * z[1] + z[2] - (z[6] + 2 * z[7] + z[8])) / (8 * size.y);
+      const i = y * width + x;
+      slope[i] = Math.atan(Math.hypot(east, north)) * degrees;
+      if (slope[i] >= flatSlopeDegrees) {
+        // The surface faces downhill.
+        aspect[i] = (Math.atan2(-east, -north) * degrees + 360) % 360;
+      }
+    }
+  }
+  return {
+    slope: { ...dsm, rasters: [slope] },
+    aspect: { ...dsm, rasters: [aspect] },
+  };
+}
+
+/**
+ * Shades the surface of a DSM as if lit by a distant light.
+ *
+ * @param  {GeoTiff} slope     Slope in degrees, from `slopeAspect`.
+ * @param  {GeoTiff} aspect    Aspect in degrees, from `slopeAspect`.
+ * @param  {number}  azimuth   Direction of the light, defaults to 315 (northwest).
+ * @param  {number}  altitude  Angle of the light above the horizon, defaults to 45.
+ * @return {GeoTiff}  Lighting between 0 and 1, invalid where the slope is.
+ */
+export function hillshade(
+  slope: GeoTiff,
+  aspect: GeoTiff,
+  azimuth: number = 315,
+  altitude: number = 45,
+): GeoTiff {
+  const radians = Math.PI / 180;
+  const zenith = (90 - altitude) * radians;
+  const slopes = slope.rasters[0];
+  const aspects = aspect.rasters[0];
+  const light = Float32Array.from(slopes, (value, i) => {
+    if (value <= -9999) {
+      return -9999;
+    }
+    const s = value * radians;
+    // Flat pixels have no aspect, it doesn't matter which one they get.
+    const a = (aspects[i] > -9999 ? aspects[i] : azimuth) * radians;
+    const shade =
+      Math.cos(zenith) * Math.cos(s) +
+      Math.sin(zenith) * Math.sin(s) * Math.cos(azimuth * radians - a);
+    return Math.max(shade, 0);
+  });
+  return { ...slope, rasters: [light] };
+}
+
+/**
+ * Hides the invalid pixels of a raster, and optionally what's not roof.
+ *
+ * @param  {GeoTiff} data  Raster with invalid values stored as -9999.
+ * @param  {GeoTiff} mask  Optional roof mask, it can have a different size.
+ * @return {GeoTiff}  Mask with the size of the data, 1 for the pixels to show.
+ */
+export function validMask(data: GeoTiff, mask?: GeoTiff): GeoTiff {
+  const { width, height } = data;
+  const values = data.rasters[0];
+  const visible = new Uint32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const maskX = mask ? Math.floor((x * mask.width) / width) : 0;
+      const maskY = mask ? Math.floor((y * mask.height) / height) : 0;
+      const roof = mask ? mask.rasters[0][maskY * mask.width + maskX] > 0 : true;
+      visible[i] = roof && values[i] > -9999 ? 1 : 0;
+    }
+  }
+  return { ...data, rasters: [visible] };
+}
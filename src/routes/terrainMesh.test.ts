@@ -0,0 +1,89 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { GeoTiff, RoofSegmentSizeAndSunshineStats, SolarPanel } from './solar';
+import { localFrame, localMeters, panelsMesh, terrainMesh } from './terrainMesh';
+
+// About 10 x 10 meters at the equator, with 1 meter pixels.
+const bounds = { north: 5 / 111195, south: -5 / 111195, east: 5 / 111195, west: -5 / 111195 };
+
+function dsm(height: (x: number, y: number) => number): GeoTiff {
+  const rasters = [
+    Float32Array.from({ length: 100 }, (_, i) => height(i % 10, Math.floor(i / 10))),
+  ];
+  return { width: 10, height: 10, rasters, bounds };
+}
+
+describe('terrainMesh', () => {
+  it('places the scene on the lowest point of the DSM', () => {
+    const frame = localFrame(dsm((x) => (x == 0 ? -9999 : 100 + x)));
+    expect(frame.baseHeight).toBe(101);
+    expect(frame.origin.latitude).toBeCloseTo(0);
+    expect(localMeters({ latitude: 1 / 111195, longitude: 0 }, frame.origin).north).toBeCloseTo(
+      1,
+      2,
+    );
+  });
+
+  it('builds a grid of triangles over the DSM', () => {
+    const data = dsm((x) => (x == 0 ? -9999 : 100 + x));
+    const mesh = terrainMesh(data, localFrame(data));
+    expect(mesh.positions.length).toBe(100 * 3);
+    expect(mesh.indices.length).toBe(9 * 9 * 6);
+    // The first pixel is invalid, it's on the ground, 4.5 meters west and north.
+    expect(mesh.positions[0]).toBeCloseTo(-4.5, 1);
+    expect(mesh.positions[1]).toBe(0);
+    expect(mesh.positions[2]).toBeCloseTo(-4.5, 1);
+    expect(mesh.positions[4]).toBe(0);
+    expect(mesh.texCoords?.slice(0, 2)).toEqual(Float32Array.of(0.05, 0.05));
+
+    // Finer DSMs are sampled.
+    expect(terrainMesh(data, localFrame(data), 5).positions.length).toBe(25 * 3);
+  });
+
+  it('puts the panels on the plane of their segment', () => {
+    const origin = { latitude: 0, longitude: 0 };
+    // Faces south at 30°, 110 meters above sea level at its center.
+    const segment = {
+      pitchDegrees: 30,
+      azimuthDegrees: 180,
+      center: origin,
+      planeHeightAtCenterMeters: 110,
+    } as RoofSegmentSizeAndSunshineStats;
+    const panel: SolarPanel = {
+      center: { latitude: 1 / 111195, longitude: 0 },
+      orientation: 'LANDSCAPE',
+      segmentIndex: 0,
+      yearlyEnergyDcKwh: 400,
+    };
+    const mesh = panelsMesh(
+      [panel],
+      [segment],
+      { width: 2, height: 1 },
+      { origin, baseHeight: 100 },
+      [1, 1, 1],
+    );
+    expect(mesh.indices).toEqual(Uint32Array.of(0, 1, 2, 0, 2, 3));
+    const heights = [1, 4, 7, 10].map((i) => mesh.positions[i]);
+    // The panel is 1 meter up the slope, turned to face south its corners are
+    // 1 meter further up or down.
+    const rise = Math.tan(Math.PI / 6);
+    expect(heights[0]).toBeCloseTo(10 + 0.05, 2);
+    expect(heights[2]).toBeCloseTo(10 + 2 * rise + 0.05, 2);
+    expect(mesh.colors?.[0]).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,193 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import type { GeoTiff, LatLng, RoofSegmentSizeAndSunshineStats, SolarPanel } from './solar';
+
+// Mean radius of the Earth in meters.
+const earthRadius = 6371008.8;
+
+// Vertices along the longest side of the mesh, finer DSMs are sampled.
+export const maxMeshSize = 256;
+
+// Panels float a little over the roof so they are not hidden inside it.
+const panelLift = 0.05;
+
+/**
+ * Triangles of a 3D scene, in meters from the center of the DSM.
+ *
+ * The axes follow WebGL: x to the east, y up, z to the south.
+ */
+export interface Mesh {
+  // x, y, z of each vertex.
+  positions: Float32Array;
+  // u, v of each vertex in the RGB image, from its top left corner.
+  texCoords?: Float32Array;
+  // r, g, b of each vertex, from 0 to 1.
+  colors?: Float32Array;
+  indices: Uint32Array;
+}
+
+export interface LocalFrame {
+  origin: LatLng;
+  // Height in meters above sea level of y = 0, the lowest point of the DSM.
+  baseHeight: number;
+}
+
+/**
+ * Places the scene at the center of the DSM, on its lowest point.
+ *
+ * @param  {GeoTiff} dsm  Digital Surface Model, heights in meters.
+ * @return {LocalFrame}  Origin of the scene.
+ */
+export function localFrame(dsm: GeoTiff): LocalFrame {
+  const { north, south, east, west } = dsm.bounds;
+  let baseHeight = Infinity;
+  for (const height of dsm.rasters[0]) {
+    if (height > -9999 && height < baseHeight) {
+      baseHeight = height;
+    }
+  }
+  return {
+    origin: { latitude: (north + south) / 2, longitude: (east + west) / 2 },
+    baseHeight: Number.isFinite(baseHeight) ? baseHeight : 0,
+  };
+}
+
+/**
+ * Converts a lat/lon point into meters east and north of the origin.
+ *
+ * The distances are small, so the Earth is flat around the origin.
+ *
+ * @param  {LatLng} point  Point of interest.
+ * @param  {LatLng} origin  Center of the scene.
+ * @return {{east, north}}  Distances in meters.
+ */
+export function localMeters(point: LatLng, origin: LatLng): { east: number; north: number } {
+  const radians = Math.PI / 180;
+  return {
+    east:
+      (point.longitude - origin.longitude) *
+      radians *
+      earthRadius *
+      Math.cos(origin.latitude * radians),
+    north: (point.latitude - origin.latitude) * radians * earthRadius,
+  };
+}
+
+/**
+ * Builds a height mesh from a DSM, to drape the RGB image on it.
+ *
+ * Invalid heights, stored as -9999, are put on the ground.
+ *
+ * @param  {GeoTiff} dsm  Digital Surface Model, heights in meters.
+ * @param  {LocalFrame} frame  Origin of the scene.
+ * @param  {number} maxSize  Vertices along the longest side, defaults to `maxMeshSize`.
+ * @return {Mesh}  Grid of triangles with texture coordinates.
+ */
+export function terrainMesh(dsm: GeoTiff, frame: LocalFrame, maxSize = maxMeshSize): Mesh {
+  const { width, height, bounds } = dsm;
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / maxSize));
+  const columns = Math.ceil(width / step);
+  const rows = Math.ceil(height / step);
+  const positions = new Float32Array(columns * rows * 3);
+  const texCoords = new Float32Array(columns * rows * 2);
+  for (let row = 0; row < rows; row++) {
+    const y = Math.min(row * step, height - 1);
+    const latitude = bounds.north - ((y + 0.5) * (bounds.north - bounds.south)) / height;
+    for (let column = 0; column < columns; column++) {
+      const x = Math.min(column * step, width - 1);
+      const longitude = bounds.west + ((x + 0.5) * (bounds.east - bounds.west)) / width;
+      const { east, north } = localMeters({ latitude, longitude }, frame.origin);
+      const value = dsm.rasters[0][y * width + x];
+      const i = row * columns + column;
+      positions.set([east, value > -9999 ? value - frame.baseHeight : 0, -north], i * 3);
+      texCoords.set([(x + 0.5) / width, (y + 0.5) / height], i * 2);
+    }
+  }
+
+  // Two triangles for each cell of the grid.
+  const indices = new Uint32Array(Math.max(columns - 1, 0) * Math.max(rows - 1, 0) * 6);
+  let next = 0;
+  for (let row = 0; row < rows - 1; row++) {
+    for (let column = 0; column < columns - 1; column++) {
+      const i = row * columns + column;
+      indices.set([i, i + columns, i + 1, i + 1, i + columns, i + columns + 1], next);
+      next += 6;
+    }
+  }
+  return { positions, texCoords, indices };
+}
+
+/**
+ * Builds the panels as rectangles on the plane of their roof segment.
+ *
+ * Each segment plane goes through `planeHeightAtCenterMeters` at its center,
+ * and goes down at its pitch towards its azimuth, the direction it faces.
+ *
+ * @param  {SolarPanel[]} panels  Panels to draw.
+ * @param  {RoofSegmentSizeAndSunshineStats[]} segments  Roof segments of the building.
+ * @param  {{width, height}} size  Panel size in meters.
+ * @param  {LocalFrame} frame  Origin of the scene.
+ * @param  {[number, number, number]} color  Color of the panels, from 0 to 1.
+ * @return {Mesh}  Two triangles for each panel, shaded by how they face the sky.
+ */
+export function panelsMesh(
+  panels: SolarPanel[],
+  segments: RoofSegmentSizeAndSunshineStats[],
+  size: { width: number; height: number },
+  frame: LocalFrame,
+  color: [number, number, number],
+): Mesh {
+  const radians = Math.PI / 180;
+  const positions = new Float32Array(panels.length * 4 * 3);
+  const colors = new Float32Array(panels.length * 4 * 3);
+  const indices = new Uint32Array(panels.length * 6);
+  panels.forEach((panel, p) => {
+    const segment = segments[panel.segmentIndex];
+    const azimuth = segment.azimuthDegrees * radians;
+    const slope = Math.tan(segment.pitchDegrees * radians);
+    const rotation = (panel.orientation == 'PORTRAIT' ? 90 : 0) * radians + azimuth;
+    const center = localMeters(panel.center, frame.origin);
+    const segmentCenter = localMeters(segment.center, frame.origin);
+    const [w, h] = [size.width / 2, size.height / 2];
+    // Same corners as the panels on the map, x to the north before the rotation.
+    [
+      [+w, +h],
+      [+w, -h],
+      [-w, -h],
+      [-w, +h],
+    ].forEach(([x, y], c) => {
+      const north = center.north + x * Math.cos(rotation) - y * Math.sin(rotation);
+      const east = center.east + x * Math.sin(rotation) + y * Math.cos(rotation);
+      const downhill =
+        (north - segmentCenter.north) * Math.cos(azimuth) +
+        (east - segmentCenter.east) * Math.sin(azimuth);
+      const height = segment.planeHeightAtCenterMeters - slope * downhill - frame.baseHeight;
+      positions.set([east, height + panelLift, -north], (p * 4 + c) * 3);
+    });
+    // Steeper panels get less light from above.
+    const light = 0.6 + 0.4 * Math.cos(segment.pitchDegrees * radians);
+    for (let c = 0; c < 4; c++) {
+      colors.set(
+        color.map((x) => x * light),
+        (p * 4 + c) * 3,
+      );
+    }
+    const i = p * 4;
+    indices.set([i, i + 1, i + 2, i, i + 2, i + 3], p * 6);
+  });
+  return { positions, colors, indices };
+}
@@ -0,0 +1,52 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { GeoTiff } from './solar';
+import { hourLabel, sunnyHours, timelapseFrames, timelapseName } from './timelapse';
+
+describe('timelapse', () => {
+  it('finds the hours with sun on a day', () => {
+    const hourlyShade: GeoTiff = {
+      width: 2,
+      height: 1,
+      // Sun on day 2 at 10am on one pixel, the other pixel is invalid.
+      rasters: [...Array(24).keys()].map((hour) =>
+        Uint32Array.of(hour == 10 ? 0b10 : 0, 2 ** 32 - 9999),
+      ),
+      bounds: { north: 1, south: 0, east: 1, west: 0 },
+    };
+    expect(sunnyHours(hourlyShade, 2)).toEqual([10]);
+    expect(sunnyHours(hourlyShade, 1)).toEqual([]);
+  });
+
+  it('lists the hours of a day, or of one day per month', () => {
+    const hours = (month: number) => (month == 5 ? [6, 7] : [12]);
+    expect(timelapseFrames('day', 5, 21, hours)).toEqual([
+      { month: 5, day: 21, hour: 6 },
+      { month: 5, day: 21, hour: 7 },
+    ]);
+    const year = timelapseFrames('year', 5, 21, hours);
+    expect(year.length).toBe(13);
+    expect(year[0]).toEqual({ month: 0, day: 15, hour: 12 });
+  });
+
+  it('names the files and the hours', () => {
+    expect(timelapseName('day', 3, 14)).toBe('hourlyShade-m04-d14');
+    expect(timelapseName('year', 3, 14)).toBe('hourlyShade-year');
+    expect([0, 9, 12, 15].map(hourLabel)).toEqual(['12am', '9am', '12pm', '3pm']);
+  });
+});
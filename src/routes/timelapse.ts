@@ -0,0 +1,193 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { encodeGif } from './gif';
+import type { Palette } from './layer';
+import type { GeoTiff } from './solar';
+
+export type TimelapseRange = 'day' | 'year';
+export type TimelapseFormat = 'gif' | 'webm';
+
+export interface TimelapseFrame {
+  // Month from 0 for January, day of the month from 1, hour of the day from 0.
+  month: number;
+  day: number;
+  hour: number;
+}
+
+// Day shown for each month of the year, halfway through the month.
+export const representativeDay = 15;
+
+// Frames are scaled down to this width, GIF files grow quickly.
+const maxFrameWidth = 480;
+
+/**
+ * Lists the hours with the sun up on a day, seen from anywhere in the file.
+ *
+ * @param  {GeoTiff} hourlyShade  Hourly shade of the month, one band per hour.
+ * @param  {number} day  Day of the month, from 1.
+ * @return {number[]}  Hours of the day, from 0.
+ */
+export function sunnyHours(hourlyShade: GeoTiff, day: number): number[] {
+  const bit = 2 ** (day - 1);
+  return hourlyShade.rasters.flatMap((values, hour) => {
+    for (let i = 0; i < values.length; i++) {
+      // Invalid pixels have bit 31 set, no day can have it.
+      if (values[i] < 2 ** 31 && Math.floor(values[i] / bit) % 2 == 1) {
+        return [hour];
+      }
+    }
+    return [];
+  });
+}
+
+/**
+ * Lists the frames of a timelapse, the night hours are left out.
+ *
+ * @param  {TimelapseRange} range  The selected day, or one day per month.
+ * @param  {number} month  Selected month, 0 for January.
+ * @param  {number} day    Selected day of the month, from 1.
+ * @param  {(month: number, day: number) => number[]} hours  Hours with sun on a day.
+ * @return {TimelapseFrame[]}  Frames in order.
+ */
+export function timelapseFrames(
+  range: TimelapseRange,
+  month: number,
+  day: number,
+  hours: (month: number, day: number) => number[],
+): TimelapseFrame[] {
+  const days =
+    range == 'day'
+      ? [{ month, day }]
+      : [...Array(12).keys()].map((m) => ({ month: m, day: representativeDay }));
+  return days.flatMap(({ month, day }) => hours(month, day).map((hour) => ({ month, day, hour })));
+}
+
+/**
+ * Names a timelapse file after what it shows.
+ *
+ * @param  {TimelapseRange} range  The selected day, or one day per month.
+ * @param  {number} month  Selected month, 0 for January.
+ * @param  {number} day    Selected day of the month, from 1.
+ * @return {string}  File name without extension, like `hourlyShade-m04-d14`.
+ */
+export function timelapseName(range: TimelapseRange, month: number, day: number): string {
+  const pad = (x: number) => String(x).padStart(2, '0');
+  return range == 'day' ? `hourlyShade-m${pad(month + 1)}-d${pad(day)}` : 'hourlyShade-year';
+}
+
+/**
+ * Shows an hour like the slider of the map, like `9am` or `3pm`.
+ *
+ * @param  {number} hour  Hour of the day, from 0.
+ * @return {string}  12-hour clock time.
+ */
+export function hourLabel(hour: number): string {
+  if (hour == 0 || hour == 12) {
+    return hour == 0 ? '12am' : '12pm';
+  }
+  return hour < 12 ? `${hour}am` : `${hour - 12}pm`;
+}
+
+/**
+ * Draws a frame with its date, hour and the legend of the layer under it.
+ *
+ * @param  {HTMLCanvasElement} image  Rendered layer.
+ * @param  {string} caption  Date and hour of the frame.
+ * @param  {Palette} palette  Colors of the layer with their labels.
+ * @return {HTMLCanvasElement}  Frame, at most `maxFrameWidth` wide.
+ */
+export function drawTimelapseFrame(
+  image: HTMLCanvasElement,
+  caption: string,
+  palette: Palette,
+): HTMLCanvasElement {
+  const scale = Math.min(1, maxFrameWidth / image.width);
+  const [width, height] = [Math.round(image.width * scale), Math.round(image.height * scale)];
+  const footer = 56;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height + footer;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, width, height);
+
+  ctx.fillStyle = '#212121';
+  ctx.font = 'bold 14px sans-serif';
+  ctx.textBaseline = 'top';
+  ctx.fillText(caption, 8, height + 6);
+
+  // Legend, a gradient bar between its two labels.
+  const gradient = ctx.createLinearGradient(8, 0, width - 8, 0);
+  palette.colors.forEach((color, i) =>
+    gradient.addColorStop(i / Math.max(palette.colors.length - 1, 1), `#${color}`),
+  );
+  ctx.fillStyle = gradient;
+  ctx.fillRect(8, height + 26, width - 16, 8);
+  ctx.fillStyle = '#212121';
+  ctx.font = '11px sans-serif';
+  ctx.fillText(palette.min, 8, height + 38);
+  ctx.textAlign = 'right';
+  ctx.fillText(palette.max, width - 8, height + 38);
+  return canvas;
+}
+
+/**
+ * Encodes the frames of a timelapse into a looping GIF or a WebM video.
+ *
+ * WebM videos are recorded in real time with a `MediaRecorder`, which not
+ * every browser has.
+ *
+ * @param  {TimelapseFormat} format  Format of the file.
+ * @param  {HTMLCanvasElement[]} frames  Frames of the same size, from `drawTimelapseFrame`.
+ * @param  {number} frameMs  Time each frame is shown.
+ * @return {Promise<Blob>}  Contents of the file.
+ */
+export async function encodeTimelapse(
+  format: TimelapseFormat,
+  frames: HTMLCanvasElement[],
+  frameMs: number,
+): Promise<Blob> {
+  if (format == 'gif') {
+    const pixels = frames.map((frame) => ({
+      width: frame.width,
+      height: frame.height,
+      pixels: frame.getContext('2d')!.getImageData(0, 0, frame.width, frame.height).data,
+    }));
+    return new Blob([encodeGif(pixels, frameMs)], { type: 'image/gif' });
+  }
+
+  if (typeof MediaRecorder == 'undefined' || !MediaRecorder.isTypeSupported('video/webm')) {
+    throw new Error('This browser cannot record WebM videos');
+  }
+  const canvas = document.createElement('canvas');
+  [canvas.width, canvas.height] = [frames[0].width, frames[0].height];
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(frames[0], 0, 0);
+  const recorder = new MediaRecorder(canvas.captureStream(), { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+  recorder.start();
+  for (const frame of frames) {
+    ctx.drawImage(frame, 0, 0);
+    await new Promise((resolve) => setTimeout(resolve, frameMs));
+  }
+  recorder.stop();
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+}
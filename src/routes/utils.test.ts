@@ -15,7 +15,8 @@
  */
 
 import { test, expect } from 'vitest';
-import { showMoney, showNumber } from './utils';
+import { findFinancialAnalysis, moneyAmount, showMoney, showNumber } from './utils';
+import type { FinancialAnalysis } from './solar';
 
 test('showMoney formats currency in EUR for Italy', () => {
   const result1 = showMoney(1234.56);
@@ -38,3 +39,18 @@ test('showNumber formats numbers correctly', () => {
   expect(showNumber(100)).toBe('100');
   expect(showNumber(0)).toBe('0');
 });
+
+test('moneyAmount adds the units and nanos', () => {
+  expect(moneyAmount({ currencyCode: 'USD', units: '12', nanos: 500000000 })).toBe(12.5);
+  expect(moneyAmount({ currencyCode: 'USD', nanos: -250000000 })).toBe(-0.25);
+  expect(moneyAmount(undefined)).toBe(0);
+});
+
+test('findFinancialAnalysis picks the closest bill bracket', () => {
+  const analyses = [20, 120, 200].map(
+    (bill) => ({ monthlyBill: { currencyCode: 'USD', units: String(bill) } }) as FinancialAnalysis,
+  );
+  expect(findFinancialAnalysis(analyses, 100)?.monthlyBill.units).toBe('120');
+  expect(findFinancialAnalysis(analyses, 500)?.monthlyBill.units).toBe('200');
+  expect(findFinancialAnalysis([], 100)).toBeUndefined();
+});
@@ -14,16 +14,16 @@
  limitations under the License.
  */
 
-import type { SolarPanelConfig } from './solar';
+import type { FinancialAnalysis, Money, SolarPanelConfig } from './solar';
 
 export function showNumber(x: number) {
   return x.toLocaleString('it-IT', { maximumFractionDigits: 1 });
 }
 
-export function showMoney(amount: number) {
+export function showMoney(amount: number, currency = 'EUR') {
   return amount.toLocaleString('it-IT', {
     style: 'currency',
-    currency: 'EUR',
+    currency: currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   });
@@ -40,3 +40,24 @@ export function findSolarConfig(
       config.yearlyEnergyDcKwh * panelCapacityRatio * dcToAcDerate >= yearlyKwhEnergyConsumption,
   );
 }
+
+export function moneyAmount(money: Money | undefined) {
+  return Number(money?.units ?? 0) + (money?.nanos ?? 0) / 1e9;
+}
+
+// The Solar API analyses a few monthly bills, the closest one to the user's
+// bill is the fairest comparison with our own model.
+export function findFinancialAnalysis(
+  financialAnalyses: FinancialAnalysis[],
+  monthlyAverageEnergyBill: number,
+) {
+  return financialAnalyses.reduce<FinancialAnalysis | undefined>(
+    (closest, analysis) =>
+      !closest ||
+      Math.abs(moneyAmount(analysis.monthlyBill) - monthlyAverageEnergyBill) <
+        Math.abs(moneyAmount(closest.monthlyBill) - monthlyAverageEnergyBill)
+        ? analysis
+        : closest,
+    undefined,
+  );
+}
@@ -0,0 +1,52 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { GeoTiff } from './solar';
+import { legendTicks, percentileRange } from './visualize';
+
+const bounds = { north: 1, south: 0, east: 1, west: 0 };
+
+describe('percentileRange', () => {
+  it('uses the roof pixels without outliers', () => {
+    // 100 roof pixels from 1 to 100, the rest of the image is much sunnier.
+    const values = Float32Array.from({ length: 200 }, (_, i) => (i < 100 ? i + 1 : 5000));
+    const data: GeoTiff = { width: 20, height: 10, rasters: [values], bounds };
+    const mask: GeoTiff = {
+      width: 20,
+      height: 10,
+      rasters: [Uint32Array.from({ length: 200 }, (_, i) => (i < 100 ? 1 : 0))],
+      bounds,
+    };
+    expect(percentileRange(data, mask)).toEqual({ min: 3, max: 98 });
+  });
+
+  it('skips invalid values and empty roofs', () => {
+    const data: GeoTiff = { width: 2, height: 1, rasters: [Float32Array.of(-9999, 7)], bounds };
+    const mask: GeoTiff = { width: 1, height: 1, rasters: [Uint32Array.of(1)], bounds };
+    expect(percentileRange(data, mask)).toEqual({ min: 7, max: 7 });
+    expect(percentileRange(data, { ...mask, rasters: [Uint32Array.of(0)] })).toBeUndefined();
+  });
+});
+
+describe('legendTicks', () => {
+  it('picks round values', () => {
+    expect(legendTicks(0, 1800)).toEqual([0, 500, 1000, 1500]);
+    expect(legendTicks(412.3, 1187.9)).toEqual([600, 800, 1000]);
+    expect(legendTicks(0.1, 0.9)).toEqual([0.2, 0.4, 0.6, 0.8]);
+    expect(legendTicks(5, 5)).toEqual([5]);
+  });
+});
@@ -117,22 +117,18 @@ export function renderPalette({
   // First create a palette from a list of hex colors.
   const palette = createPalette(colors ?? ['000000', 'ffffff']);
   // Normalize each value of our raster/band of interest into indices,
-  // such that they always map into a value within the palette.
-  const indices = data.rasters[index ?? 0]
-    .map((x) => normalize(x, max ?? 1, min ?? 0))
-    .map((x) => Math.round(x * (palette.length - 1)));
-  return renderRGB(
-    {
-      ...data,
-      // Map each index into the corresponding RGB values.
-      rasters: [
-        indices.map((i: number) => palette[i].r),
-        indices.map((i: number) => palette[i].g),
-        indices.map((i: number) => palette[i].b),
-      ],
-    },
-    mask,
-  );
+  // such that they always map into a value within the palette,
+  // then map each index into the corresponding RGB values.
+  const values = data.rasters[index ?? 0];
+  const [r, g, b] = [0, 1, 2].map(() => new Uint32Array(values.length));
+  for (let i = 0; i < values.length; i++) {
+    const x = normalize(values[i], max ?? 1, min ?? 0);
+    const color = palette[Math.round(x * (palette.length - 1))];
+    r[i] = color.r;
+    g[i] = color.g;
+    b[i] = color.b;
+  }
+  return renderRGB({ ...data, rasters: [r, g, b] }, mask);
 }
 
 /**
@@ -227,3 +223,71 @@ export function rgbToColor({ r, g, b }: { r: number; g: number; b: number }): st
   };
   return `#${f(r)}${f(g)}${f(b)}`;
 }
+
+/**
+ * Finds the range of the values on the roof, leaving out the outliers.
+ *
+ * Looks at every band, so all the months of a layer share the same colors.
+ * Invalid values, stored as -9999, are left out too.
+ *
+ * @param  {GeoTiff} data   GeoTiff with the values of interest.
+ * @param  {GeoTiff} mask   Roof mask, it can have a different size than the data.
+ * @param  {number}  lower  Lower percentile, defaults to 2.
+ * @param  {number}  upper  Upper percentile, defaults to 98.
+ * @return {{min, max}}     Range of the values, undefined without roof pixels.
+ */
+export function percentileRange(
+  data: GeoTiff,
+  mask: GeoTiff,
+  lower: number = 2,
+  upper: number = 98,
+): { min: number; max: number } | undefined {
+  const values: number[] = [];
+  for (let y = 0; y < data.height; y++) {
+    const maskY = Math.floor((y * mask.height) / data.height);
+    for (let x = 0; x < data.width; x++) {
+      const maskX = Math.floor((x * mask.width) / data.width);
+      if (!mask.rasters[0][maskY * mask.width + maskX]) {
+        continue;
+      }
+      for (const raster of data.rasters) {
+        const value = raster[y * data.width + x];
+        if (value > -9999) {
+          values.push(value);
+        }
+      }
+    }
+  }
+  if (values.length == 0) {
+    return undefined;
+  }
+  // Typed arrays sort by numeric value.
+  const sorted = Float32Array.from(values).sort();
+  const at = (percentile: number) => sorted[Math.round((percentile / 100) * (sorted.length - 1))];
+  return { min: at(lower), max: at(upper) };
+}
+
+/**
+ * Picks round values within a range to label a legend.
+ *
+ * The step between ticks is 1, 2 or 5 times a power of 10.
+ *
+ * @param  {number} min    Minimum value of the range.
+ * @param  {number} max    Maximum value of the range.
+ * @param  {number} count  Approximate number of ticks, defaults to 5.
+ * @return {number[]}      Tick values from lowest to highest.
+ */
+export function legendTicks(min: number, max: number, count: number = 5): number[] {
+  if (!(max > min)) {
+    return [min];
+  }
+  const roughStep = (max - min) / Math.max(count - 1, 1);
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+  const step = [1, 2, 5, 10].map((x) => x * magnitude).find((x) => x >= roughStep)!;
+  const ticks = [];
+  for (let i = Math.ceil(min / step); i * step <= max; i++) {
+    // Multiplying avoids adding up rounding errors, like 0.30000000000000004.
+    ticks.push(Number((i * step).toPrecision(12)));
+  }
+  return ticks;
+}
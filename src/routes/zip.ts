@@ -0,0 +1,110 @@
+/*
+ Copyright 2024 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Packs files into a zip archive, like a KMZ file.
+ *
+ * Files are stored without compression, PNG and GeoTIFF files are already
+ * compressed anyway.
+ *
+ * @param  {ZipFile[]} files  Names and contents of the files, in order.
+ * @return {Uint8Array}  Contents of the zip archive.
+ */
+export function createZip(files: ZipFile[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature.
+    writeEntry(local, 4, crc, file.data.length, name.length);
+    localParts.push(new Uint8Array(local.buffer), name, file.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory signature.
+    central.setUint16(4, 20, true); // Made by version 2.0.
+    writeEntry(central, 6, crc, file.data.length, name.length);
+    central.setUint32(42, offset, true); // Offset of the local header.
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + file.data.length;
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature.
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(offset + centralSize + 22);
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+// Fields shared by the local and central headers, from the version needed.
+function writeEntry(view: DataView, at: number, crc: number, size: number, nameLength: number) {
+  view.setUint16(at, 20, true); // Version 2.0 needed to extract.
+  view.setUint16(at + 2, 0x0800, true); // UTF-8 file names.
+  view.setUint16(at + 4, 0, true); // Stored, no compression.
+  view.setUint16(at + 6, 0, true); // Modified at midnight,
+  view.setUint16(at + 8, (0 << 9) | (1 << 5) | 1, true); // on January 1st 1980.
+  view.setUint32(at + 10, crc, true);
+  view.setUint32(at + 14, size, true); // Compressed size.
+  view.setUint32(at + 18, size, true); // Uncompressed size.
+  view.setUint16(at + 22, nameLength, true);
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Computes the CRC-32 checksum of zip files.
+ *
+ * @param  {Uint8Array} data  Bytes to check.
+ * @return {number}  Unsigned checksum.
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
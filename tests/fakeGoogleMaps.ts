@@ -0,0 +1,169 @@
+/*
+ Copyright 2023 Google LLC
+
+ Licensed under the Apache License, Version 2.0 (the "License");
+ you may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+			https://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ */
+
+/**
+ * Replaces the Google Maps JavaScript API, which needs a key and the network.
+ *
+ * Runs in the page before the app, through `page.addInitScript`, so it can't
+ * use anything from outside the function. The loader skips loading the real
+ * API once `google.maps.version` is set. Shapes and overlays keep their options
+ * but draw nothing, the geocoder always finds the default address.
+ */
+export function installFakeGoogleMaps() {
+  const earthRadius = 6378137;
+  const radians = Math.PI / 180;
+
+  type LatLngLike = LatLng | { lat: number; lng: number };
+
+  class LatLng {
+    private latitude: number;
+    private longitude: number;
+
+    constructor(lat: number | { lat: number; lng: number }, lng?: number) {
+      [this.latitude, this.longitude] =
+        typeof lat == 'number' ? [lat, lng ?? 0] : [lat.lat, lat.lng];
+    }
+    lat() {
+      return this.latitude;
+    }
+    lng() {
+      return this.longitude;
+    }
+    toJSON() {
+      return { lat: this.latitude, lng: this.longitude };
+    }
+  }
+
+  const toLatLng = (point: LatLngLike) => (point instanceof LatLng ? point : new LatLng(point));
+
+  class MVCObject {
+    private values: Record<string, unknown> = {};
+    private listeners: Record<string, ((...args: unknown[]) => void)[]> = {};
+
+    constructor(options: Record<string, unknown> = {}) {
+      this.setOptions(options);
+    }
+    get(key: string) {
+      return this.values[key];
+    }
+    set(key: string, value: unknown) {
+      this.values[key] = value;
+    }
+    setOptions(options: Record<string, unknown> | null) {
+      Object.assign(this.values, options);
+    }
+    setMap(map: unknown) {
+      this.values.map = map;
+    }
+    getMap() {
+      return this.values.map;
+    }
+    setPath(path: unknown) {
+      this.values.path = path;
+    }
+    addListener(event: string, handler: (...args: unknown[]) => void) {
+      (this.listeners[event] ??= []).push(handler);
+      return {
+        remove: () => {
+          this.listeners[event] = this.listeners[event].filter((listener) => listener != handler);
+        },
+      };
+    }
+  }
+
+  class Map extends MVCObject {
+    constructor(element: HTMLElement, options: Record<string, unknown> = {}) {
+      super(options);
+      this.set('div', element);
+    }
+    fitBounds(bounds: unknown) {
+      this.set('bounds', bounds);
+    }
+    setCenter(center: LatLngLike) {
+      this.set('center', toLatLng(center));
+    }
+    getCenter() {
+      return this.get('center');
+    }
+    setZoom(zoom: number) {
+      this.set('zoom', zoom);
+    }
+    getZoom() {
+      return this.get('zoom');
+    }
+    setMapTypeId(mapTypeId: string) {
+      this.set('mapTypeId', mapTypeId);
+    }
+  }
+
+  class GroundOverlay extends MVCObject {
+    constructor(url: string, bounds: unknown, options: Record<string, unknown> = {}) {
+      super({ ...options, url, bounds });
+    }
+  }
+
+  class Geocoder {
+    async geocode({ address }: { address: string }) {
+      return {
+        results: [
+          { formatted_address: address, geometry: { location: new LatLng(44.64712, 10.92519) } },
+        ],
+      };
+    }
+  }
+
+  class PlaceAutocompleteElement extends HTMLElement {}
+  customElements.define('gmp-place-autocomplete', PlaceAutocompleteElement);
+
+  const spherical = {
+    computeDistanceBetween(from: LatLngLike, to: LatLngLike) {
+      const [a, b] = [toLatLng(from), toLatLng(to)];
+      const dLat = (b.lat() - a.lat()) * radians;
+      const dLng = (b.lng() - a.lng()) * radians;
+      const h =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(a.lat() * radians) * Math.cos(b.lat() * radians) * Math.sin(dLng / 2) ** 2;
+      return 2 * earthRadius * Math.asin(Math.min(1, Math.sqrt(h)));
+    },
+    computeOffset(from: LatLngLike, distance: number, heading: number) {
+      const origin = toLatLng(from);
+      const north = distance * Math.cos(heading * radians);
+      const east = distance * Math.sin(heading * radians);
+      return new LatLng(
+        origin.lat() + north / earthRadius / radians,
+        origin.lng() + east / (earthRadius * Math.cos(origin.lat() * radians)) / radians,
+      );
+    },
+  };
+
+  const maps = {
+    version: 'fake',
+    LatLng,
+    Map,
+    Marker: MVCObject,
+    Polygon: MVCObject,
+    Polyline: MVCObject,
+    Rectangle: MVCObject,
+    GroundOverlay,
+    Geocoder,
+    SymbolPath: { CIRCLE: 0, FORWARD_CLOSED_ARROW: 1, FORWARD_OPEN_ARROW: 2 },
+    geometry: { spherical },
+    places: { PlaceAutocompleteElement },
+    importLibrary: async (name: string) =>
+      name == 'geometry' ? maps.geometry : name == 'places' ? maps.places : maps,
+  };
+  (window as unknown as { google: unknown }).google = { maps };
+}
@@ -14,8 +14,20 @@
  limitations under the License.
  */
 
-import { test } from '@playwright/test';
+import { expect, test } from '@playwright/test';
+import { installFakeGoogleMaps } from './fakeGoogleMaps';
 
 test('root page exists', async ({ page }) => {
   await page.goto('/');
 });
+
+test('shows the sections of the fixture building', async ({ page }) => {
+  await page.addInitScript(installFakeGoogleMaps);
+  // Keep the Maps API and the language lookup from reaching the network.
+  await page.route(/^https:\/\//, (route) => route.abort());
+  await page.goto('/');
+
+  await expect(page.getByText('Building Insights endpoint').first()).toBeVisible();
+  await expect(page.getByText('Data Layers endpoint').first()).toBeVisible();
+  await expect(page.getByText('Solar Potential analysis').first()).toBeVisible();
+});
@@ -15,11 +15,20 @@
  */
 
 import { sveltekit } from '@sveltejs/kit/vite';
+import { loadEnv } from 'vite';
 import { defineConfig } from 'vitest/config';
 
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   plugins: [sveltekit()],
+  define: {
+    // Only tells the app whether the key is there, the key stays on the server.
+    __SOLAR_API_KEY_ON_SERVER__: JSON.stringify(!!loadEnv(mode, process.cwd(), '').SOLAR_API_KEY),
+  },
+  // The GeoTIFF decoders are loaded on demand, which needs module workers.
+  worker: {
+    format: 'es',
+  },
   test: {
     include: ['src/**/*.{test,spec}.{js,ts}'],
   },
-});
+}));